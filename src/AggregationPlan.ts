@@ -0,0 +1,320 @@
+import _ from "lodash";
+import { InvalidConfigurationError, UnknownSourceError } from "./errors";
+import { AggregationResult, Reported, SourceRegistry } from "./inference";
+import { joinPath, parsePath, PathSegment } from "./paths";
+import { AggregateOpts, AggregationConfiguration, AggregationMode, MergeStrategy, PlanExplanation, SingleAggregationOpts } from "./types";
+
+/**
+ * A path of a configuration, parsed and validated.
+ */
+export type CompiledPath = {
+    path: string;
+    segments: PathSegment[];
+    options: SingleAggregationOpts<string>;
+    // The sources the entities may come from: all the registered sources if they are chosen by a function or by the value of a field
+    sources: string[];
+    // The path of the object holding the ID
+    parentPath: string;
+    // Where the entities are written, relative to the data of the configuration
+    target: string;
+    // The fields kept from the entities when fields are selected: the selected fields and the fields read by the nested configuration
+    fields?: readonly string[];
+};
+
+export type CompiledConfiguration = {
+    // The paths sorted by length, so that the shortest paths are processed first
+    paths: CompiledPath[];
+};
+
+export type CompiledPlan = {
+    root: AggregationConfiguration<string>;
+    // The compiled configurations, including the nested ones
+    configs: Map<AggregationConfiguration<string>, CompiledConfiguration>;
+    // The fields needed from each source, undefined if the whole entities are needed
+    projections: Map<string, string[] | undefined>;
+};
+
+/**
+ * An aggregation configuration compiled by `Aggregator.compile`.
+ * The configuration is validated once, and its paths are parsed once, so that the plan can be executed many times.
+ */
+export class AggregationPlan<TConfig = AggregationConfiguration, TRegistry = SourceRegistry> {
+    private compiled: CompiledPlan;
+    private execute: (data: any, opts?: AggregateOpts) => Promise<any>;
+
+    /**
+     * @param compiled The compiled configuration
+     * @param execute The function running the aggregation of the aggregator
+     */
+    constructor(compiled: CompiledPlan, execute: (data: any, opts?: AggregateOpts) => Promise<any>) {
+        this.compiled = compiled;
+        this.execute = execute;
+    }
+
+    /**
+     * Aggregate the data with the compiled configuration. See `Aggregator.aggregate`.
+     *
+     * @param data The data to enrich/aggregate
+     * @param opts The options for this aggregation call, overriding the options of the aggregator.
+     * @returns The data with the enrichments.
+     */
+    public async aggregate<TInput, TOpts extends AggregateOpts = AggregateOpts>(data: TInput, opts?: TOpts): Promise<Reported<AggregationResult<TInput, TConfig, TRegistry>, TOpts>> {
+        if (!data) {
+            return (opts?.report ? { data: null, unresolved: {} } : null) as Reported<AggregationResult<TInput, TConfig, TRegistry>, TOpts>;
+        }
+        return this.execute(data, opts);
+    }
+
+    /**
+     * Describe the sources, the rounds and the write targets of the plan.
+     */
+    public explain(): PlanExplanation {
+        const sourcePaths = new Map<string, string[]>();
+        const rounds: PlanExplanation["rounds"] = [];
+        const writes: PlanExplanation["writes"] = [];
+        let recursive = false;
+        type Level = { config: AggregationConfiguration<string>; base: string; lineage: AggregationConfiguration<string>[] };
+        let level: Level[] = [{ config: this.compiled.root, base: "", lineage: [this.compiled.root] }];
+        for (let round = 1; level.length > 0; round++) {
+            const nextLevel: Level[] = [];
+            const roundSources: string[] = [];
+            const roundPaths: string[] = [];
+            for (const { config, base, lineage } of level) {
+                for (const compiledPath of this.compiled.configs.get(config)!.paths) {
+                    const { aggregate } = compiledPath.options;
+                    const path = joinPath(base, compiledPath.path);
+                    const target = joinPath(base, compiledPath.target);
+                    roundPaths.push(path);
+                    for (const source of compiledPath.sources) {
+                        roundSources.push(source);
+                        sourcePaths.set(source, [...sourcePaths.get(source) ?? [], path]);
+                        writes.push({ path, source, mode: getModeFromConfig(compiledPath.options), target });
+                    }
+                    if (aggregate) {
+                        if (lineage.includes(aggregate)) {
+                            recursive = true;
+                        } else {
+                            nextLevel.push({ config: aggregate, base: target, lineage: [...lineage, aggregate] });
+                        }
+                    }
+                }
+            }
+            rounds.push({ round, sources: _.uniq(roundSources), paths: roundPaths });
+            level = nextLevel;
+        }
+        const sources = [...sourcePaths].map(([name, paths]) => {
+            const fields = this.compiled.projections.get(name);
+            return fields ? { name, paths, fields } : { name, paths };
+        });
+        return { sources, rounds, writes, recursive };
+    }
+}
+
+/**
+ * Parse and validate a configuration and its nested configurations.
+ *
+ * @param options The configuration
+ * @param registeredSources The names of the registered entity sources
+ * @throws {PathSyntaxError} If a path cannot be parsed.
+ * @throws {UnknownSourceError} If the configuration refers to an entity source that is not registered.
+ * @throws {InvalidConfigurationError} If the options of a path are invalid, or two paths write to the same key.
+ */
+export function compileConfiguration(options: AggregationConfiguration<string>, registeredSources: string[]): CompiledPlan {
+    const configs = new Map<AggregationConfiguration<string>, CompiledConfiguration>();
+    const compile = (config: AggregationConfiguration<string>) => {
+        if (configs.has(config)) {
+            return;
+        }
+        const compiled: CompiledConfiguration = { paths: [] };
+        configs.set(config, compiled);
+        for (const path of _.sortBy(Object.keys(config), (path) => path.split(".").length)) {
+            const pathOption = config[path];
+            const segments = parsePath(path);
+            validatePathOption(path, pathOption);
+            const sources = candidateSources(pathOption.source, registeredSources);
+            const unknownSource = sources.find((source) => !registeredSources.includes(source));
+            if (unknownSource !== undefined) {
+                throw new UnknownSourceError(unknownSource, [path]);
+            }
+            const idKey = (segments[segments.length - 1] as { key: string }).key;
+            const parentPath = path === idKey ? "" : path.substring(0, path.length - idKey.length - 1);
+            const target = pathOption.to ? joinPath(parentPath, pathOption.to.key) : parentPath;
+            compiled.paths.push({ path, segments, options: pathOption, sources, parentPath, target, fields: pathOption.select });
+            if (pathOption.aggregate) {
+                compile(pathOption.aggregate);
+            }
+        }
+        validateTargets(compiled);
+    };
+    compile(options);
+    // The nested configurations are only all compiled now, since they may refer to their parents
+    for (const compiled of configs.values()) {
+        for (const compiledPath of compiled.paths) {
+            const { select, aggregate } = compiledPath.options;
+            if (select && aggregate) {
+                compiledPath.fields = _.union(select, nestedFields(compiledPath, configs.get(aggregate)!));
+            }
+        }
+    }
+    return { root: options, configs, projections: collectProjections(configs) };
+}
+
+function validatePathOption(path: string, pathOption: SingleAggregationOpts<string>) {
+    const source = staticSource(pathOption);
+    if (!isSourceOption(pathOption.source)) {
+        throw new InvalidConfigurationError(`The option "source" of the path "${path}" must be the name of a source, a field or a function.`, [path]);
+    }
+    if (pathOption.when !== undefined && !_.isFunction(pathOption.when)) {
+        throw new InvalidConfigurationError(`The option "when" of the path "${path}" must be a function.`, [path], source);
+    }
+    if (pathOption.to && !(_.isString(pathOption.to.key) && pathOption.to.key.length > 0)) {
+        throw new InvalidConfigurationError(`The option "to" of the path "${path}" requires a key.`, [path], source);
+    }
+    if (pathOption.sort && _.isEmpty(_.castArray(pathOption.sort.by))) {
+        throw new InvalidConfigurationError(`The option "sort" of the path "${path}" requires the fields to sort by.`, [path], source);
+    }
+    if (pathOption.limit !== undefined && !(Number.isInteger(pathOption.limit) && pathOption.limit >= 0)) {
+        throw new InvalidConfigurationError(`The option "limit" of the path "${path}" must be a non-negative integer.`, [path], source);
+    }
+    if (pathOption.merge !== undefined) {
+        if (pathOption.to) {
+            throw new InvalidConfigurationError(`The option "merge" of the path "${path}" cannot be used with the option "to".`, [path], source);
+        }
+        if (!isMergeStrategy(pathOption.merge)) {
+            throw new InvalidConfigurationError(`The option "merge" of the path "${path}" must be "deep", "shallow", "preserve", a prefix or a function.`, [path], source);
+        }
+    }
+}
+
+function isSourceOption(source: unknown): source is SingleAggregationOpts<string>["source"] {
+    if (_.isPlainObject(source)) {
+        const { field, map } = source as { field?: unknown; map?: unknown };
+        return _.isString(field) && field.length > 0 && (map === undefined || (_.isPlainObject(map) && _.every(map as object, _.isString)));
+    }
+    return _.isString(source) || _.isFunction(source);
+}
+
+/**
+ * The sources a path may look up: the source, the sources of the map, or all of them if the source is chosen freely.
+ */
+function candidateSources(source: SingleAggregationOpts<string>["source"], registeredSources: string[]): string[] {
+    if (_.isString(source)) {
+        return [source];
+    }
+    if (!_.isFunction(source) && source.map) {
+        return _.uniq(_.values(source.map));
+    }
+    return registeredSources;
+}
+
+/**
+ * The name of the source of a path, for the errors, unless it is chosen per object.
+ */
+function staticSource(pathOption: SingleAggregationOpts<string>): string | undefined {
+    return _.isString(pathOption.source) ? pathOption.source : undefined;
+}
+
+function isMergeStrategy(merge: unknown): merge is MergeStrategy {
+    if (_.isString(merge)) {
+        return ["deep", "shallow", "preserve"].includes(merge);
+    }
+    if (_.isPlainObject(merge)) {
+        const prefix = (merge as { prefix?: unknown }).prefix;
+        return _.isString(prefix) && prefix.length > 0;
+    }
+    return _.isFunction(merge);
+}
+
+/**
+ * Make sure that no two paths write to the same key, and that no path writes over the ID field of another path.
+ */
+function validateTargets(compiled: CompiledConfiguration) {
+    const writers = new Map<string, string>();
+    const idPaths = new Set(compiled.paths.map(({ path }) => path));
+    for (const { path, options, target } of compiled.paths) {
+        if (!options.to) {
+            continue;
+        }
+        const writer = writers.get(target);
+        if (writer !== undefined) {
+            throw new InvalidConfigurationError(`The paths "${writer}" and "${path}" both write to "${target}".`, [writer, path], staticSource(options));
+        }
+        if (target !== path && idPaths.has(target)) {
+            throw new InvalidConfigurationError(`The path "${path}" writes to "${target}", which holds the IDs of another path.`, [path], staticSource(options));
+        }
+        writers.set(target, path);
+    }
+}
+
+/**
+ * The fields of the entities read by their nested configuration, which must be kept when the entities are trimmed by `select`:
+ *  the first field of every nested path, and the fields of the composite keys and of the sources held by the entities themselves.
+ *
+ * @throws {InvalidConfigurationError} If the fields cannot be known, e.g. when a nested path starts with a wildcard.
+ */
+function nestedFields({ path, options }: CompiledPath, nested: CompiledConfiguration): string[] {
+    const fields: string[] = [];
+    for (const { path: nestedPath, segments, options: nestedOption } of nested.paths) {
+        const [head] = segments;
+        const unknown = unknownFieldsReason(segments, nestedOption);
+        if (unknown) {
+            throw new InvalidConfigurationError(
+                `The path "${path}" selects fields, but the nested path "${nestedPath}" ${unknown}, so the fields it reads are not known. Use "omit" instead.`,
+                [path, nestedPath], staticSource(options));
+        }
+        fields.push((head as { key: string }).key);
+        if (segments.length === 1) {
+            const heads = [..._.values(nestedOption.compositeKey), ...(_.isPlainObject(nestedOption.source) ? [(nestedOption.source as { field: string }).field] : [])];
+            fields.push(...heads.map((field) => field.split(".")[0]));
+        }
+    }
+    return fields;
+}
+
+/**
+ * Why the fields of the entities read by a nested path cannot be known, if they cannot.
+ */
+function unknownFieldsReason(segments: PathSegment[], nestedOption: SingleAggregationOpts<string>): string | undefined {
+    if (segments[0].type !== "key") {
+        return `starts with "${segments[0].type === "wildcard" ? "*" : "**"}"`;
+    }
+    // The options of a deeper path only read the object holding the ID, which is kept with the first field
+    if (segments.length > 1) {
+        return undefined;
+    }
+    if (nestedOption.when) {
+        return `has the option "when"`;
+    }
+    if (_.isFunction(nestedOption.source)) {
+        return "chooses its source with a function";
+    }
+    return undefined;
+}
+
+/**
+ * Find the fields needed from each source, including the fields to sort by.
+ * The whole entities of a source are needed as soon as one of its paths does not select fields.
+ */
+function collectProjections(configs: Map<AggregationConfiguration<string>, CompiledConfiguration>): Map<string, string[] | undefined> {
+    const projections = new Map<string, string[] | undefined>();
+    for (const compiled of configs.values()) {
+        for (const { options: pathOption, sources, fields: select } of compiled.paths) {
+            for (const source of sources) {
+                if (!select) {
+                    projections.set(source, undefined);
+                } else if (!projections.has(source) || projections.get(source)) {
+                    const sortFields = pathOption.sort ? _.castArray(pathOption.sort.by).filter(_.isString) : [];
+                    projections.set(source, _.sortBy(_.union(projections.get(source) ?? [], select, sortFields)));
+                }
+            }
+        }
+    }
+    return projections;
+}
+
+export function getModeFromConfig(opts: SingleAggregationOpts<string>): AggregationMode {
+    if (opts.to) {
+        return AggregationMode.TO_KEY;
+    }
+    return AggregationMode.MERGE;
+}
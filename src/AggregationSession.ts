@@ -0,0 +1,91 @@
+import { AggregationEventName, AggregationEvents, Instrumentation } from "./instrumentation";
+import { Limiter } from "./utils";
+
+/**
+ * The state of one aggregation call, which is given to the entity sources.
+ * 
+ * The entity sources keep the entities prepared for the call in the stores of the session
+ *  instead of their own memory, so that concurrent calls do not share any data,
+ *  and the entities are released together with the session.
+ */
+export class AggregationSession {
+    /**
+     * The context given by the caller of the aggregation, e.g. the current user or locale.
+     */
+    readonly context: Record<string, any>;
+
+    private stores = new Map<object, Map<string, any>>();
+    private limiter?: Limiter;
+    private instrumentation?: Instrumentation;
+
+    /**
+     * @param context The context given by the caller of the aggregation
+     * @param limiter The limiter for the lookups of all the sources, e.g. to cap the concurrency of an aggregator
+     * @param instrumentation The hooks of the aggregator, which receive the events of the sources
+     */
+    constructor(context: Record<string, any> = {}, limiter?: Limiter, instrumentation?: Instrumentation) {
+        this.context = context;
+        this.limiter = limiter;
+        this.instrumentation = instrumentation;
+    }
+
+    /**
+     * Report an event of an entity source (e.g. `cacheHit`) to the hooks of the aggregator that opened the session.
+     * 
+     * @param name The name of the event
+     * @param event The payload of the event
+     */
+    public emit<TEvent extends AggregationEventName>(name: TEvent, event: AggregationEvents[TEvent]): void {
+        this.instrumentation?.emit(name, event);
+    }
+
+    /**
+     * Run a lookup within the concurrency limit of the session.
+     * Entity sources should run their lookups through this method.
+     * 
+     * @param task The function starting the lookup
+     */
+    public schedule<T>(task: () => Promise<T>): Promise<T> {
+        return this.limiter ? this.limiter(task) : task();
+    }
+
+    /**
+     * Whether the lookups run through `schedule` are limited by the given limiter.
+     */
+    public isLimitedBy(limiter: Limiter): boolean {
+        return this.limiter === limiter;
+    }
+
+    /**
+     * Release the oldest entities of every store beyond the limit, e.g. between the windows of a stream.
+     * The released entities are looked up again if needed.
+     * 
+     * @param maxEntities The maximum number of entities kept per store
+     */
+    public trim(maxEntities: number): void {
+        for (const store of this.stores.values()) {
+            for (const key of store.keys()) {
+                if (store.size <= maxEntities) {
+                    break;
+                }
+                store.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Get the store of an entity source for this session.
+     * The store is created on the first access.
+     * 
+     * @param owner The entity source owning the store
+     * @returns The store, mapping the IDs to the entities
+     */
+    public storeOf<T = any>(owner: object): Map<string, T> {
+        let store = this.stores.get(owner);
+        if (!store) {
+            store = new Map<string, T>();
+            this.stores.set(owner, store);
+        }
+        return store;
+    }
+}
@@ -1,5 +1,12 @@
+import _ from "lodash";
 import { Aggregator } from "./Aggregator";
 import { SimpleEntitySource } from "./SimpleEntitySource";
+import { GroupedEntitySource } from "./GroupedEntitySource";
+import { AggregationSession } from "./AggregationSession";
+import { CachedEntitySource } from "./CachedEntitySource";
+import { InMemoryEntityCache } from "./InMemoryEntityCache";
+import { EntityNotFoundError, InvalidConfigurationError, MaxDepthExceededError, MergeConflictError, PathSyntaxError, SourceLookupError, SourceTimeoutError, UnknownSourceError } from "./errors";
+import { EntitySource } from "./types";
 
 
 const users = [
@@ -200,4 +207,1230 @@ describe('Aggregating array', () => {
         const result = await aggregator.aggregate(data, opts);
         expect(result[2]).toBeNull();
     })
-});
\ No newline at end of file
+});
+describe('Aggregating arrays of IDs', () => {
+    let data: any;
+    let opts: any;
+    let findUsersMock: jest.Mock;
+    let arrayAggregator: Aggregator;
+    beforeEach(() => {
+        findUsersMock = jest.fn(findUsers);
+        arrayAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", {
+                lookupUsing: findUsersMock,
+                entityIdBy: "id"
+            }),
+        });
+        opts = {
+            "watcherIds": {
+                source: "user",
+                to: {
+                    key: "watchers",
+                },
+                removeIdKey: true,
+            },
+        }
+        data = { ownerId: 'A', watcherIds: ['B', 'X', 'A', 'B'] };
+    })
+    test('Happy path: entities are injected in the order of the IDs, keeping nulls and duplicates', async () => {
+        const result = await arrayAggregator.aggregate(data, opts);
+        expect(result.watchers).toEqual([users[1], null, users[0], users[1]]);
+        expect(Object.keys(result)).not.toContain('watcherIds');
+    });
+    test('The null elements should be kept in place, but not looked up', async () => {
+        const result = await arrayAggregator.aggregate({ watcherIds: ['A', null, 'B', undefined] }, opts);
+        expect(findUsersMock).toHaveBeenCalledTimes(1);
+        expect(findUsersMock.mock.calls[0][0]).toEqual(['A', 'B']);
+        expect(result.watchers).toEqual([users[0], null, users[1], null]);
+    });
+    test('All the IDs should be prepared in a single batch', async () => {
+        opts.ownerId = { source: "user", to: { key: "owner" } };
+        await arrayAggregator.aggregate(data, opts);
+        expect(findUsersMock).toHaveBeenCalledTimes(1);
+        expect(findUsersMock.mock.calls[0][0].sort()).toEqual(['A', 'B', 'X']);
+    });
+    test('When "omitMissing" is set: missing entities should be dropped', async () => {
+        opts.watcherIds.many = { omitMissing: true };
+        const result = await arrayAggregator.aggregate(data, opts);
+        expect(result.watchers).toEqual([users[1], users[0], users[1]]);
+    });
+    test('When "unique" is set: duplicated IDs should only appear once', async () => {
+        opts.watcherIds.many = { unique: true };
+        const result = await arrayAggregator.aggregate(data, opts);
+        expect(result.watchers).toEqual([users[1], null, users[0]]);
+    });
+    test('In MERGE mode: the array of IDs should be replaced by the entities', async () => {
+        delete opts.watcherIds.to;
+        const result = await arrayAggregator.aggregate(data, opts);
+        expect(result.watcherIds).toEqual([users[1], null, users[0], users[1]]);
+    });
+    test('Arrays of IDs inside arrays should be supported', async () => {
+        const list = [{ watcherIds: ['A'] }, { watcherIds: ['B', 'A'] }];
+        const result = await arrayAggregator.aggregate(list, opts);
+        expect(result[0].watchers).toEqual([users[0]]);
+        expect(result[1].watchers).toEqual([users[1], users[0]]);
+    });
+});
+
+describe('Nested aggregation', () => {
+    const members = [
+        { id: 'A', name: 'Andy', teamId: 'X' },
+        { id: 'B', name: 'Hai', teamId: 'Y' },
+    ];
+    const teams = [
+        { id: 'X', name: 'Core', leadId: 'B' },
+        { id: 'Y', name: 'Web', leadId: 'A' },
+    ];
+    let findMembersMock: jest.Mock;
+    let findTeamsMock: jest.Mock;
+    let nestedAggregator: Aggregator;
+    let opts: any;
+    beforeEach(() => {
+        findMembersMock = jest.fn((ids) => members.filter(member => ids.includes(member.id)).map(member => ({ ...member })));
+        findTeamsMock = jest.fn((ids) => teams.filter(team => ids.includes(team.id)).map(team => ({ ...team })));
+        nestedAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: findMembersMock, entityIdBy: "id" }),
+            team: new SimpleEntitySource("team", { lookupUsing: findTeamsMock, entityIdBy: "id" }),
+        });
+        opts = {
+            "assigneeId": {
+                source: "user",
+                to: { key: "assignee" },
+                aggregate: {
+                    "teamId": {
+                        source: "team",
+                        to: { key: "team" },
+                        aggregate: {
+                            "leadId": {
+                                source: "user",
+                                to: { key: "lead" },
+                            }
+                        }
+                    }
+                }
+            }
+        };
+    });
+    test('Happy path: the injected entities should be aggregated level by level', async () => {
+        const result = await nestedAggregator.aggregate({ assigneeId: 'A' }, opts);
+        expect(result.assignee.team.name).toBe('Core');
+        expect(result.assignee.team.lead.name).toBe('Hai');
+    });
+    test('Each source should be prepared once per depth level', async () => {
+        const data = [{ assigneeId: 'A' }, { assigneeId: 'B' }, { assigneeId: 'A' }];
+        const result = await nestedAggregator.aggregate(data, opts);
+        expect(result[0].assignee.team.name).toBe('Core');
+        expect(result[1].assignee.team.name).toBe('Web');
+        expect(result[2].assignee.team.lead.name).toBe('Hai');
+        // The leads have already been looked up in the first round of the same session
+        expect(findMembersMock).toHaveBeenCalledTimes(1);
+        expect(findTeamsMock).toHaveBeenCalledTimes(1);
+    });
+    test('Arrays of injected entities should be aggregated', async () => {
+        const data = { watcherIds: ['A', 'B'] };
+        const result = await nestedAggregator.aggregate(data, {
+            "watcherIds": { source: "user", to: { key: "watchers" }, aggregate: opts.assigneeId.aggregate },
+        });
+        expect(result.watchers[0].team.name).toBe('Core');
+        expect(result.watchers[1].team.name).toBe('Web');
+    });
+    test('Recursive configurations should stop when the entities have already been aggregated', async () => {
+        const recursiveOpts: any = { "teamId": { source: "team", to: { key: "team" } } };
+        recursiveOpts.teamId.aggregate = { "leadId": { source: "user", to: { key: "lead" }, aggregate: recursiveOpts } };
+        const result = await nestedAggregator.aggregate({ teamId: 'X' }, recursiveOpts);
+        expect(result.team.lead.team.lead.name).toBe('Andy');
+        // Team X appears again in its own lineage, so it is not aggregated any further
+        expect(result.team.lead.team.lead.team.name).toBe('Core');
+        expect(result.team.lead.team.lead.team.lead).toBeUndefined();
+        expect(() => JSON.stringify(result)).not.toThrow();
+    });
+    test('When the maximum depth is exceeded: should throw', async () => {
+        const shallowAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: findMembersMock, entityIdBy: "id" }),
+            team: new SimpleEntitySource("team", { lookupUsing: findTeamsMock, entityIdBy: "id" }),
+        }, { maxDepth: 2 });
+        const aggregation = shallowAggregator.aggregate({ assigneeId: 'A' }, opts);
+        await expect(aggregation).rejects.toThrow(MaxDepthExceededError);
+        await expect(aggregation).rejects.toMatchObject({ maxDepth: 2, paths: ['assignee.team'] });
+    });
+});
+
+describe('Aggregating one-to-many relations', () => {
+    const comments = [
+        { id: 'C1', taskId: 'T1', text: 'First', createdAt: 3 },
+        { id: 'C2', taskId: 'T2', text: 'Second', createdAt: 1 },
+        { id: 'C3', taskId: 'T1', text: 'Third', createdAt: 2 },
+    ];
+    let findCommentsMock: jest.Mock;
+    let groupedAggregator: Aggregator;
+    let data: any[];
+    let opts: any;
+    beforeEach(() => {
+        findCommentsMock = jest.fn((taskIds) => comments.filter(comment => taskIds.includes(comment.taskId)));
+        groupedAggregator = new Aggregator({
+            comment: new GroupedEntitySource("comment", {
+                lookupUsing: findCommentsMock,
+                groupBy: "taskId",
+            }),
+        });
+        opts = {
+            "id": {
+                source: "comment",
+                to: { key: "comments" },
+            }
+        };
+        data = [{ id: 'T1' }, { id: 'T2' }, { id: 'T3' }];
+    });
+    test('Happy path: the children should be injected by their parent ID', async () => {
+        const result = await groupedAggregator.aggregate(data, opts);
+        expect(result[0].comments.map(c => c.id)).toEqual(['C1', 'C3']);
+        expect(result[1].comments.map(c => c.id)).toEqual(['C2']);
+        expect(result[0].id).toBe('T1');
+        expect(findCommentsMock).toHaveBeenCalledTimes(1);
+    });
+    test('Parents without children should get an empty array', async () => {
+        const result = await groupedAggregator.aggregate(data, opts);
+        expect(result[2].comments).toEqual([]);
+    });
+    test('When "sort" and "limit" are set: the children should be sorted and limited per parent', async () => {
+        opts.id.sort = { by: "createdAt", order: "desc" };
+        opts.id.limit = 1;
+        const result = await groupedAggregator.aggregate(data, opts);
+        expect(result[0].comments.map(c => c.id)).toEqual(['C1']);
+        opts.id.sort.order = "asc";
+        const secondResult = await groupedAggregator.aggregate([{ id: 'T1' }], opts);
+        expect(secondResult[0].comments.map(c => c.id)).toEqual(['C3']);
+    });
+});
+
+describe('Immutable aggregation', () => {
+    const members = [
+        { id: 'A', name: 'Andy', teamId: 'X', profile: { title: 'Dev' } },
+    ];
+    const teams = [
+        { id: 'X', name: 'Core', profile: { size: 3 } },
+    ];
+    let immutableAggregator: Aggregator;
+    let opts: any;
+    let data: any;
+    beforeEach(() => {
+        immutableAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: (ids) => members.filter(member => ids.includes(member.id)), entityIdBy: "id" }),
+            team: new SimpleEntitySource("team", { lookupUsing: (ids) => teams.filter(team => ids.includes(team.id)), entityIdBy: "id" }),
+        }, { immutable: true });
+        opts = {
+            "assigneeId": {
+                source: "user",
+                to: { key: "assignee" },
+                removeIdKey: true,
+                aggregate: {
+                    "teamId": { source: "team", removeIdKey: true },
+                },
+            },
+            "reviewerId": {
+                source: "user",
+                to: { key: "reviewer" },
+                transform: (user) => { user.name = user.name.toUpperCase(); return user; },
+            },
+        };
+        data = { assigneeId: 'A', reviewerId: 'A', meta: { tags: ['x'] } };
+    });
+    test('The input data should not be modified', async () => {
+        const input = _.cloneDeep(data);
+        const result = await immutableAggregator.aggregate(data, opts);
+        expect(data).toEqual(input);
+        expect(result).not.toBe(data);
+        expect(result.meta).not.toBe(data.meta);
+        expect(result.assignee.name).toBe('Core');
+    });
+    test('The entities held by the sources should never be modified', async () => {
+        const result = await immutableAggregator.aggregate(data, opts);
+        expect(result.assignee.profile).toEqual({ title: 'Dev', size: 3 });
+        expect(result.reviewer.name).toBe('ANDY');
+        expect(members[0]).toEqual({ id: 'A', name: 'Andy', teamId: 'X', profile: { title: 'Dev' } });
+        expect(teams[0]).toEqual({ id: 'X', name: 'Core', profile: { size: 3 } });
+        // The next aggregation should still see the original entities
+        const secondResult = await immutableAggregator.aggregate({ assigneeId: 'A' }, { "assigneeId": { source: "user", to: { key: "assignee" } } });
+        expect(secondResult.assignee.name).toBe('Andy');
+    });
+    test('The option should be overridable per call', async () => {
+        const result = await immutableAggregator.aggregate(data, { "reviewerId": opts.reviewerId }, { immutable: false });
+        expect(result).toBe(data);
+        expect(members[0].name).toBe('ANDY');
+        members[0].name = 'Andy';
+    });
+});
+
+describe('Error handling', () => {
+    let failingLookup: jest.Mock;
+    let failingAggregator: Aggregator;
+    let opts: any;
+    let data: any;
+    beforeEach(() => {
+        failingLookup = jest.fn(async () => { throw new Error('Service unavailable'); });
+        failingAggregator = new Aggregator({
+            user: userSource,
+            todo: new SimpleEntitySource("todo", { lookupUsing: failingLookup, entityIdBy: "id" }),
+        });
+        opts = {
+            "assigneeId": { source: "user", to: { key: "assignee" } },
+            "tasks.*.taskId": { source: "todo", to: { key: "task" }, removeIdKey: true },
+        };
+        data = { assigneeId: 'A', tasks: [{ taskId: 'T1' }, { taskId: 'T2' }] };
+    });
+    test('When a source is not registered: should throw an UnknownSourceError before looking up anything', async () => {
+        opts.assigneeId.aggregate = { "teamId": { source: "team" } };
+        const promise = failingAggregator.aggregate(data, opts);
+        await expect(promise).rejects.toBeInstanceOf(UnknownSourceError);
+        await expect(promise).rejects.toMatchObject({ source: 'team', paths: ['teamId'] });
+        expect(failingLookup).not.toHaveBeenCalled();
+    });
+    test('By default: a failing source should reject with a SourceLookupError carrying the paths', async () => {
+        const promise = failingAggregator.aggregate(data, opts);
+        await expect(promise).rejects.toBeInstanceOf(SourceLookupError);
+        await expect(promise).rejects.toMatchObject({
+            source: 'todo',
+            paths: ['tasks[0].taskId', 'tasks[1].taskId'],
+            cause: expect.objectContaining({ message: 'Service unavailable' }),
+        });
+    });
+    test('With the "null" policy: the failed entities should be injected as null', async () => {
+        failingAggregator.register("todo", new SimpleEntitySource("todo", { lookupUsing: failingLookup, entityIdBy: "id" }), { onError: "null" });
+        const result = await failingAggregator.aggregate(data, opts);
+        expect(result.assignee.name).toBe('Andy');
+        expect(result.tasks).toEqual([{ task: null }, { task: null }]);
+    });
+    test('With the "skip" policy on the path: the data should be left untouched', async () => {
+        opts["tasks.*.taskId"].onError = "skip";
+        const result = await failingAggregator.aggregate(data, opts);
+        expect(result.assignee.name).toBe('Andy');
+        expect(result.tasks).toEqual([{ taskId: 'T1' }, { taskId: 'T2' }]);
+    });
+    test('When an entity cannot be read: the error policy should apply as well', async () => {
+        const brokenSource = { prepare: async () => undefined, get: async () => { throw new Error('Broken'); } };
+        const brokenAggregator = new Aggregator({ user: brokenSource }, { onError: "null" });
+        const result = await brokenAggregator.aggregate({ assigneeId: 'A' }, { "assigneeId": { source: "user", to: { key: "assignee" } } });
+        expect(result.assignee).toBeNull();
+        await expect(brokenAggregator.aggregate({ assigneeId: 'A' }, { "assigneeId": { source: "user", onError: "throw" } }))
+            .rejects.toMatchObject({ paths: ['assigneeId'] });
+    });
+    test('Failed lookups should be retried', async () => {
+        failingLookup.mockImplementationOnce(async () => { throw new Error('Flaky'); });
+        failingLookup.mockImplementationOnce(async (ids) => todos.filter(todo => ids.includes(todo.id)));
+        failingAggregator = new Aggregator({
+            todo: new SimpleEntitySource("todo", { lookupUsing: failingLookup, entityIdBy: "id" }),
+        }, { policies: { todo: { retry: { retries: 2, delay: 1 } } } });
+        const result = await failingAggregator.aggregate(data, { "tasks.*.taskId": opts["tasks.*.taskId"] });
+        expect(result.tasks[1].task.task).toBe('Code');
+        expect(failingLookup).toHaveBeenCalledTimes(2);
+    });
+    test('When a lookup takes too long: should reject with a SourceTimeoutError', async () => {
+        const slowAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: () => new Promise<any[]>(() => undefined), entityIdBy: "id" }),
+        }, { policies: { user: { timeout: 10 } } });
+        const promise = slowAggregator.aggregate(data, { "assigneeId": opts.assigneeId });
+        await expect(promise).rejects.toBeInstanceOf(SourceTimeoutError);
+        await expect(promise).rejects.toMatchObject({ source: 'user', timeout: 10, paths: ['assigneeId'] });
+    });
+});
+
+describe('Aggregation sessions', () => {
+    let findUsersMock: jest.Mock;
+    let source: SimpleEntitySource<any>;
+    beforeEach(() => {
+        findUsersMock = jest.fn(findUsers);
+        source = new SimpleEntitySource("user", { lookupUsing: findUsersMock, entityIdBy: "id" });
+    });
+    test('The prepared entities should not outlive the aggregation call', async () => {
+        const sessionAggregator = new Aggregator({ user: source });
+        const result = await sessionAggregator.aggregate({ userId: 'A' }, { "userId": { source: "user", to: { key: "user" } } });
+        expect(result.user.name).toBe('Andy');
+        expect(await source.get('A')).toBeUndefined();
+        await sessionAggregator.aggregate({ userId: 'A' }, { "userId": { source: "user", to: { key: "user" } } });
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+    });
+    test('Concurrent calls should not observe the entities of each other', async () => {
+        let resolveFirstLookup: () => void = () => undefined;
+        findUsersMock.mockImplementationOnce((ids) => new Promise((resolve) => {
+            resolveFirstLookup = () => resolve(findUsers(ids));
+        }));
+        const sessionAggregator = new Aggregator({ user: source });
+        const opts: any = { "userId": { source: "user", to: { key: "user" } } };
+        const first = sessionAggregator.aggregate({ userId: 'A' }, opts);
+        const second = await sessionAggregator.aggregate({ userId: 'B', otherId: 'A' }, { ...opts, "otherId": { source: "user", to: { key: "other" } } });
+        resolveFirstLookup();
+        expect((await first).user.name).toBe('Andy');
+        expect(second.other.name).toBe('Andy');
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+    });
+    test('A session given by the caller should be reused across calls', async () => {
+        const sessionAggregator = new Aggregator({ user: source });
+        const session = new AggregationSession({ locale: 'en' });
+        const opts: any = { "userId": { source: "user", to: { key: "user" } } };
+        await sessionAggregator.aggregate({ userId: 'A' }, opts, { session });
+        await sessionAggregator.aggregate([{ userId: 'A' }, { userId: 'X' }], opts, { session });
+        await sessionAggregator.aggregate({ userId: 'X' }, opts, { session });
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+        expect(findUsersMock.mock.calls[1][0]).toEqual(['X']);
+    });
+    test('When sessions are disabled: the sources should keep the entities in their own memory', async () => {
+        const sharedAggregator = new Aggregator({ user: source }, { sessions: false });
+        await sharedAggregator.aggregate({ userId: 'A' }, { "userId": { source: "user" } });
+        expect(await source.get('A')).toEqual(users[0]);
+    });
+});
+
+describe('Batch size and concurrency', () => {
+    const manyUsers = _.range(10).map((index) => ({ id: `U${index}`, name: `User ${index}` }));
+    let running: number;
+    let maxRunning: number;
+    let trackedLookup: jest.Mock;
+    let data: any[];
+    beforeEach(() => {
+        running = 0;
+        maxRunning = 0;
+        trackedLookup = jest.fn(async (ids: string[]) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return manyUsers.filter((user) => ids.includes(user.id));
+        });
+        data = manyUsers.map((user) => ({ userId: user.id, reviewerId: user.id }));
+    });
+    test('The IDs should be looked up in chunks of "maxBatchSize", and the results merged', async () => {
+        const batchAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: trackedLookup, entityIdBy: "id", maxBatchSize: 3 }),
+        });
+        const result = await batchAggregator.aggregate(data, { "userId": { source: "user", to: { key: "user" } } });
+        expect(trackedLookup.mock.calls.map((call) => call[0].length)).toEqual([3, 3, 3, 1]);
+        expect(result.map((row) => row.user.name)).toEqual(manyUsers.map((user) => user.name));
+    });
+    test('A source should not run more than "maxConcurrency" chunks at the same time', async () => {
+        const batchAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: trackedLookup, entityIdBy: "id", maxBatchSize: 2, maxConcurrency: 2 }),
+        });
+        await batchAggregator.aggregate(data, { "userId": { source: "user", to: { key: "user" } } });
+        expect(trackedLookup).toHaveBeenCalledTimes(5);
+        expect(maxRunning).toBe(2);
+    });
+    test('The aggregator should cap the concurrency across all the sources', async () => {
+        const batchAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: trackedLookup, entityIdBy: "id", maxBatchSize: 2 }),
+            reviewer: new SimpleEntitySource("reviewer", { lookupUsing: trackedLookup, entityIdBy: "id", maxBatchSize: 2 }),
+        }, { maxConcurrency: 3 });
+        const result = await batchAggregator.aggregate(data, {
+            "userId": { source: "user", to: { key: "user" } },
+            "reviewerId": { source: "reviewer", to: { key: "reviewer" } },
+        });
+        expect(trackedLookup).toHaveBeenCalledTimes(10);
+        expect(maxRunning).toBe(3);
+        expect(result[9].reviewer.name).toBe('User 9');
+    });
+    test('The cap should hold for the sources that do not schedule their lookups, and with a session given by the caller', async () => {
+        const customSource = (): EntitySource => {
+            const memory = new Map<string, any>();
+            return {
+                async prepare(ids) {
+                    (await trackedLookup(ids)).forEach((user: any) => memory.set(user.id, user));
+                },
+                async get(id) {
+                    return memory.get(id as string) ?? null;
+                },
+            };
+        };
+        const customAggregator = new Aggregator({ user: customSource(), reviewer: customSource(), owner: customSource() }, { maxConcurrency: 1 });
+        const result = await customAggregator.aggregate(data.map((row) => ({ ...row, ownerId: row.userId })), {
+            "userId": { source: "user", to: { key: "user" } },
+            "reviewerId": { source: "reviewer", to: { key: "reviewer" } },
+            "ownerId": { source: "owner", to: { key: "owner" } },
+        });
+        expect(trackedLookup).toHaveBeenCalledTimes(3);
+        expect(maxRunning).toBe(1);
+        expect(result[9].owner.name).toBe('User 9');
+        // A session without the limiter of the aggregator cannot limit the lookups one by one, so the preparations are limited instead
+        maxRunning = 0;
+        const sessionAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: trackedLookup, entityIdBy: "id" }),
+            reviewer: new SimpleEntitySource("reviewer", { lookupUsing: trackedLookup, entityIdBy: "id" }),
+        }, { maxConcurrency: 1 });
+        await sessionAggregator.aggregate(data, {
+            "userId": { source: "user", to: { key: "user" } },
+            "reviewerId": { source: "reviewer", to: { key: "reviewer" } },
+        }, { session: new AggregationSession() });
+        expect(maxRunning).toBe(1);
+    });
+});
+
+describe('Non-string and composite keys', () => {
+    test('Numeric IDs should be passed to the lookup function as numbers', async () => {
+        const products = [{ id: 1, name: 'Pen' }, { id: 2, name: 'Ink' }];
+        const lookupUsing = jest.fn((ids: number[]) => products.filter((product) => ids.includes(product.id)));
+        const keyAggregator = new Aggregator({ product: new SimpleEntitySource("product", { lookupUsing, entityIdBy: "id" }) });
+        const result = await keyAggregator.aggregate([{ productId: 1 }, { productId: 2 }, { productId: 1 }], {
+            "productId": { source: "product", to: { key: "product" } },
+        });
+        expect(lookupUsing).toHaveBeenCalledWith([1, 2]);
+        expect(result.map((row) => row.product?.name)).toEqual(['Pen', 'Ink', 'Pen']);
+    });
+    test('Objects with a meaningful string conversion should be supported', async () => {
+        class ObjectId {
+            constructor(private hex: string) { }
+            toString() { return this.hex; }
+        }
+        const authors = [{ _id: new ObjectId('aa01'), name: 'Andy' }];
+        const lookupUsing = jest.fn((ids: ObjectId[]) => authors.filter((author) => ids.some((id) => `${id}` === `${author._id}`)));
+        const keyAggregator = new Aggregator({ author: new SimpleEntitySource("author", { lookupUsing, entityIdBy: "_id" }) });
+        const result = await keyAggregator.aggregate([{ authorId: new ObjectId('aa01') }, { authorId: new ObjectId('aa01') }], {
+            "authorId": { source: "author", to: { key: "author" } },
+        });
+        expect(lookupUsing.mock.calls[0][0]).toHaveLength(1);
+        expect(lookupUsing.mock.calls[0][0][0]).toBeInstanceOf(ObjectId);
+        expect(result[1].author?.name).toBe('Andy');
+    });
+    test('A composite ID should be built from sibling fields', async () => {
+        const members = [
+            { tenantId: 'T1', userId: 'A', name: 'Andy' },
+            { tenantId: 'T2', userId: 'A', name: 'Anna' },
+        ];
+        const lookupUsing = jest.fn((keys: { tenantId: string; userId: string }[]) =>
+            members.filter((member) => keys.some((key) => key.tenantId === member.tenantId && key.userId === member.userId)));
+        const keyAggregator = new Aggregator({
+            member: new SimpleEntitySource("member", {
+                lookupUsing,
+                entityIdBy: (member) => ({ userId: member.userId, tenantId: member.tenantId }),
+            }),
+        });
+        const data = [
+            { tenantId: 'T1', userId: 'A' },
+            { tenantId: 'T2', userId: 'A' },
+            { tenantId: 'T1', userId: 'A' },
+            { tenantId: 'T1' },
+        ];
+        const result = await keyAggregator.aggregate(data, {
+            "userId": { source: "member", to: { key: "member" }, compositeKey: { tenantId: "tenantId", userId: "userId" }, removeIdKey: true },
+        });
+        expect(lookupUsing.mock.calls[0][0]).toEqual([{ tenantId: 'T1', userId: 'A' }, { tenantId: 'T2', userId: 'A' }]);
+        expect(result.map((row) => row.member?.name)).toEqual(['Andy', 'Anna', 'Andy', undefined]);
+        expect(result[0]).toEqual({ member: members[0] });
+    });
+    test('A custom key serializer should decide which IDs are equal', async () => {
+        const tags = [{ slug: 'news', label: 'News' }];
+        const lookupUsing = jest.fn((slugs: string[]) => tags.filter((tag) => slugs.includes(tag.slug)));
+        const keyAggregator = new Aggregator({
+            tag: new SimpleEntitySource("tag", { lookupUsing, entityIdBy: "slug", serializeKeyUsing: (key) => `${key}`.toLowerCase() }),
+        });
+        const result = await keyAggregator.aggregate({ tagIds: ['news', 'NEWS'] }, { "tagIds": { source: "tag", to: { key: "tags" } } });
+        expect(lookupUsing).toHaveBeenCalledWith(['news']);
+        expect(result.tags).toEqual([tags[0], tags[0]]);
+    });
+});
+
+describe('Field projection', () => {
+    const profiles = [
+        { id: 'A', name: 'Andy', avatarUrl: 'a.png', email: 'andy@example.com' },
+        { id: 'B', name: 'Hai', avatarUrl: 'b.png', email: 'hai@example.com' },
+    ];
+    let lookupUsing: jest.Mock;
+    let projectionAggregator: Aggregator;
+    beforeEach(() => {
+        lookupUsing = jest.fn((ids: string[], fields?: string[]) => profiles
+            .filter((profile) => ids.includes(profile.id))
+            .map((profile) => fields ? _.pick(profile, fields) : profile));
+        projectionAggregator = new Aggregator({ profile: new SimpleEntitySource("profile", { lookupUsing, entityIdBy: "id" }) });
+    });
+    test('Only the selected fields should be injected, and the union of the fields should be looked up', async () => {
+        const result = await projectionAggregator.aggregate({ authorId: 'A', reviewerId: 'B' }, {
+            "authorId": { source: "profile", to: { key: "author" }, select: ["name", "avatarUrl"] },
+            "reviewerId": { source: "profile", to: { key: "reviewer" }, select: ["name"] },
+        });
+        expect(lookupUsing).toHaveBeenCalledTimes(1);
+        expect(lookupUsing).toHaveBeenCalledWith(['A', 'B'], ['avatarUrl', 'id', 'name']);
+        expect(result.author).toEqual({ name: 'Andy', avatarUrl: 'a.png' });
+        expect(result.reviewer).toEqual({ name: 'Hai' });
+    });
+    test('The whole entities should be looked up if one of the paths does not select fields', async () => {
+        const result = await projectionAggregator.aggregate({ authorId: 'A', reviewerIds: ['A', 'B'] }, {
+            "authorId": { source: "profile", to: { key: "author" }, select: ["name"] },
+            "reviewerIds": { source: "profile", to: { key: "reviewers" }, omit: ["email"] },
+        });
+        expect(lookupUsing).toHaveBeenCalledWith(['A', 'B']);
+        expect(result.author).toEqual({ name: 'Andy' });
+        expect(result.reviewers).toEqual([_.omit(profiles[0], 'email'), _.omit(profiles[1], 'email')]);
+        expect(profiles[0].email).toBe('andy@example.com');
+    });
+    test('The fields selected in nested aggregations should be looked up in the same projection', async () => {
+        const people = [{ id: 'A', name: 'Andy', managerId: 'B' }, { id: 'B', name: 'Hai', managerId: null }];
+        const findPeople = jest.fn((ids: string[], fields?: string[]) =>
+            people.filter((person) => ids.includes(person.id)).map((person) => fields ? _.pick(person, fields) : person));
+        const peopleAggregator = new Aggregator({ person: new SimpleEntitySource("person", { lookupUsing: findPeople, entityIdBy: "id" }) });
+        const result = await peopleAggregator.aggregate({ ownerId: 'A' }, {
+            "ownerId": {
+                source: "person",
+                to: { key: "owner" },
+                select: ["name", "managerId"],
+                aggregate: { "managerId": { source: "person", to: { key: "manager" }, select: ["name"] } },
+            },
+        });
+        expect(findPeople.mock.calls.map((call) => call[1])).toEqual([['id', 'managerId', 'name'], ['id', 'managerId', 'name']]);
+        expect(result.owner).toEqual({ name: 'Andy', managerId: 'B', manager: { name: 'Hai' } });
+    });
+    test('The fields read by a nested aggregation should be looked up and kept, even if they are not selected', async () => {
+        const people = [{ id: 'A', name: 'Andy', teamId: 'T1' }];
+        const teams = [{ id: 'T1', name: 'Core' }];
+        const findPeople = jest.fn((ids: string[], fields?: string[]) =>
+            people.filter((person) => ids.includes(person.id)).map((person) => fields ? _.pick(person, fields) : person));
+        const findTeams = jest.fn((ids: string[]) => teams.filter((team) => ids.includes(team.id)));
+        const teamAggregator = new Aggregator({
+            person: new SimpleEntitySource("person", { lookupUsing: findPeople, entityIdBy: "id" }),
+            team: new SimpleEntitySource("team", { lookupUsing: findTeams, entityIdBy: "id" }),
+        });
+        const result = await teamAggregator.aggregate({ ownerId: 'A' }, {
+            "ownerId": { source: "person", to: { key: "owner" }, select: ["name"], aggregate: { "teamId": { source: "team", to: { key: "team" } } } },
+        });
+        expect(findPeople).toHaveBeenCalledWith(['A'], ['id', 'name', 'teamId']);
+        expect(findTeams).toHaveBeenCalledWith(['T1']);
+        expect(result.owner).toEqual({ name: 'Andy', teamId: 'T1', team: teams[0] });
+        expect(() => teamAggregator.compile({
+            "ownerId": { source: "person", select: ["name"], aggregate: { "teamId": { source: "team", when: (person) => !!person.teamId } } },
+        })).toThrow('The path "ownerId" selects fields, but the nested path "teamId" has the option "when", so the fields it reads are not known. Use "omit" instead.');
+    });
+    test('A session should not give the entities prepared with fewer fields to a later aggregation', async () => {
+        const session = new AggregationSession();
+        await projectionAggregator.aggregate({ authorId: 'A' }, { "authorId": { source: "profile", to: { key: "author" }, select: ["name"] } }, { session });
+        const result = await projectionAggregator.aggregate({ authorId: 'A' }, { "authorId": { source: "profile", to: { key: "author" } } }, { session });
+        expect(lookupUsing).toHaveBeenCalledTimes(2);
+        expect(result.author).toEqual(profiles[0]);
+    });
+});
+
+describe('Path syntax', () => {
+    test('A leading wildcard should aggregate the values of an object', async () => {
+        const data = { d1: { userId: 'A' }, d2: { userId: 'B' } };
+        const result = await aggregator.aggregate(data, { "*.userId": { source: "user", to: { key: "user" } } });
+        expect(result).toEqual({ d1: { userId: 'A', user: users[0] }, d2: { userId: 'B', user: users[1] } });
+    });
+    test('A wildcard should aggregate the values of an object', async () => {
+        const data = { byDay: { '2024-01-01': { userId: 'A' }, '2024-01-02': { userId: 'B' } } };
+        const result = await aggregator.aggregate(data, { "byDay.*.userId": { source: "user", to: { key: "user" } } });
+        expect(result.byDay['2024-01-01'].user).toEqual(users[0]);
+        expect(result.byDay['2024-01-02'].user).toEqual(users[1]);
+    });
+    test('The values that are not objects should be left untouched', async () => {
+        const byDay = await aggregator.aggregate({ byDay: { d1: { userId: 'A' }, count: 3 } }, { "byDay.*.userId": { source: "user", to: { key: "user" } } });
+        expect(byDay).toEqual({ byDay: { d1: { userId: 'A', user: users[0] }, count: 3 } });
+        // @ts-expect-error The values of the task do not hold a userId
+        const task = await aggregator.aggregate({ userId: 'A', title: 'x' }, { "*.userId": { source: "user", to: { key: "user" } } });
+        expect(task).toEqual({ userId: 'A', title: 'x' });
+    });
+    test('Recursive descent should aggregate tree-shaped data', async () => {
+        const thread = [
+            { authorId: 'A', replies: [{ authorId: 'B', replies: [{ authorId: 'A', replies: [] }] }] },
+        ];
+        const result = await aggregator.aggregate(thread, { "**.authorId": { source: "user", to: { key: "author" }, removeIdKey: true } });
+        expect(result[0].author).toEqual(users[0]);
+        expect(result[0].replies[0].author).toEqual(users[1]);
+        expect(result[0].replies[0].replies[0]).toEqual({ author: users[0], replies: [] });
+    });
+    test('A filter should only aggregate the matching elements', async () => {
+        const data = { items: [{ type: 'user', refId: 'A' }, { type: 'todo', refId: 'T1' }] };
+        const result = await aggregator.aggregate(data, {
+            "items[type=user].refId": { source: "user", to: { key: "ref" } },
+            "items[type=todo].refId": { source: "todo", to: { key: "ref" } },
+        });
+        expect(result.items.map((item) => item.ref)).toEqual([users[0], todos[0]]);
+    });
+    test('An invalid path should throw a PathSyntaxError before any lookup', async () => {
+        const lookupUsing = jest.fn(findUsers);
+        const strictAggregator = new Aggregator({ user: new SimpleEntitySource("user", { lookupUsing, entityIdBy: "id" }) });
+        await expect(strictAggregator.aggregate({ userId: 'A', items: [] }, {
+            "userId": { source: "user", aggregate: { "items[type=user.refId": { source: "user" } } },
+        })).rejects.toThrow(PathSyntaxError);
+        expect(lookupUsing).not.toHaveBeenCalled();
+    });
+});
+
+describe('Compiled plans', () => {
+    test('A plan should aggregate data like the configuration it is compiled from', async () => {
+        const plan = aggregator.compile({ "assigneeId": { source: "user", to: { key: "assignee" } } });
+        const first = await plan.aggregate({ assigneeId: 'A' });
+        const second = await plan.aggregate([{ assigneeId: 'B' }]);
+        expect(first.assignee).toEqual(users[0]);
+        expect(second[0].assignee).toEqual(users[1]);
+        expect(await plan.aggregate(null)).toBeNull();
+    });
+    test('explain() should describe the sources, the rounds and the write targets', () => {
+        const userOpts: any = { "reviewerId": { source: "user", to: { key: "reviewer" }, select: ["name"] } };
+        userOpts["reviewerId"].aggregate = userOpts;
+        const plan = aggregator.compile({
+            "*.todoId": { source: "todo", aggregate: { "ownerId": { source: "user", to: { key: "owner" }, aggregate: userOpts } } },
+            "userId": { source: "user", to: { key: "user" } },
+        });
+        expect(plan.explain()).toEqual({
+            sources: [
+                { name: "user", paths: ["userId", "*.ownerId", "*.owner.reviewerId"] },
+                { name: "todo", paths: ["*.todoId"] },
+            ],
+            rounds: [
+                { round: 1, sources: ["user", "todo"], paths: ["userId", "*.todoId"] },
+                { round: 2, sources: ["user"], paths: ["*.ownerId"] },
+                { round: 3, sources: ["user"], paths: ["*.owner.reviewerId"] },
+            ],
+            writes: [
+                { path: "userId", source: "user", mode: "toKey", target: "user" },
+                { path: "*.todoId", source: "todo", mode: "merge", target: "*" },
+                { path: "*.ownerId", source: "user", mode: "toKey", target: "*.owner" },
+                { path: "*.owner.reviewerId", source: "user", mode: "toKey", target: "*.owner.reviewer" },
+            ],
+            recursive: true,
+        });
+    });
+    test('The configuration should be validated when compiled', () => {
+        const compile = (opts: any) => () => aggregator.compile(opts);
+        expect(compile({ "userId": { source: "nope" } })).toThrow(UnknownSourceError);
+        expect(compile({ "userId": { source: "user", to: {} } })).toThrow('The option "to" of the path "userId" requires a key.');
+        expect(compile({
+            "*.userId": { source: "user", to: { key: "user" } },
+            "*.ownerId": { source: "user", to: { key: "user" } },
+        })).toThrow('The paths "*.userId" and "*.ownerId" both write to "*.user".');
+        expect(compile({
+            "userId": { source: "user", to: { key: "ownerId" } },
+            "ownerId": { source: "user" },
+        })).toThrow(InvalidConfigurationError);
+        expect(compile({ "id": { source: "user", aggregate: { "userId": { source: "user", limit: -1 } } } })).toThrow(InvalidConfigurationError);
+    });
+    test('Merging an entity that is not an object should throw an InvalidConfigurationError', async () => {
+        await expect(aggregator.aggregate({ userId: 'A' }, { "userId": { source: "user", transform: (user) => user.name } }))
+            .rejects.toThrow(InvalidConfigurationError);
+    });
+});
+
+describe('Instrumentation', () => {
+    test('The hooks should receive the events of the aggregation and of the sources', async () => {
+        const events: [string, any][] = [];
+        const record = (name: string) => (event: any) => events.push([name, event]);
+        const instrumentedAggregator = new Aggregator({ user: userSource, todo: todoSource }, {
+            hooks: {
+                aggregationStart: record('aggregationStart'),
+                aggregationEnd: record('aggregationEnd'),
+                sourcePrepareStart: record('sourcePrepareStart'),
+                sourcePrepareEnd: record('sourcePrepareEnd'),
+                entityMissing: record('entityMissing'),
+            },
+        });
+        await instrumentedAggregator.aggregate([{ userId: 'A' }, { userId: 'X' }], {
+            "userId": { source: "user", to: { key: "user" } },
+        }, { context: { tenant: 'T1' } });
+        expect(events.map(([name]) => name)).toEqual([
+            'aggregationStart', 'sourcePrepareStart', 'sourcePrepareEnd', 'entityMissing', 'aggregationEnd',
+        ]);
+        expect(events[0][1]).toEqual({ context: { tenant: 'T1' } });
+        expect(events[2][1]).toMatchObject({ source: 'user', ids: 2, round: 1, duration: expect.any(Number) });
+        expect(events[3][1]).toEqual({ source: 'user', id: 'X', path: '[1].userId' });
+        expect(events[4][1]).toMatchObject({ rounds: 1, duration: expect.any(Number) });
+        expect(events[4][1].error).toBeUndefined();
+    });
+    test('An event emitter should receive the events, including the cache hits and misses', async () => {
+        const emit = jest.fn();
+        const cachedSource = new CachedEntitySource("user", { cache: new InMemoryEntityCache(), lookupUsing: findUsers, entityIdBy: "id" });
+        const instrumentedAggregator = new Aggregator({ user: cachedSource }, { hooks: { emit } });
+        await instrumentedAggregator.aggregate({ userId: 'A' }, { "userId": { source: "user", to: { key: "user" } } });
+        await instrumentedAggregator.aggregate([{ userId: 'A' }, { userId: 'B' }], { "userId": { source: "user", to: { key: "user" } } });
+        const cacheEvents = emit.mock.calls.filter(([name]) => name.startsWith('cache'));
+        expect(cacheEvents).toEqual([
+            ['cacheMiss', { source: 'user', ids: 1 }],
+            ['cacheHit', { source: 'user', ids: 1 }],
+            ['cacheMiss', { source: 'user', ids: 1 }],
+        ]);
+    });
+    test('The tracer should get a span per aggregation and per preparation, which records the failures', async () => {
+        const spans: any[] = [];
+        const tracer = {
+            startSpan: jest.fn((name: string, options?: any) => {
+                const span = { name, attributes: options?.attributes, setAttribute: jest.fn(), recordException: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+                spans.push(span);
+                return span;
+            }),
+        };
+        const failingSource = new SimpleEntitySource("todo", { lookupUsing: () => { throw new Error('Down'); }, entityIdBy: "id" });
+        const tracedAggregator = new Aggregator({ user: userSource, todo: failingSource }, { tracer, onError: "null" });
+        await tracedAggregator.aggregate({ userId: 'A', todoId: 'T1' }, {
+            "userId": { source: "user", to: { key: "user" } },
+            "todoId": { source: "todo", to: { key: "todo" } },
+        });
+        expect(spans.map((span) => span.name)).toEqual(['aggregation', 'aggregation.prepare', 'aggregation.prepare']);
+        expect(spans[1].attributes).toEqual({ "aggregation.source": "user", "aggregation.ids": 1, "aggregation.round": 1 });
+        expect(spans[2].recordException).toHaveBeenCalledWith(expect.any(Error));
+        expect(spans[2].setStatus).toHaveBeenCalledWith({ code: 2, message: 'Down' });
+        expect(spans.every((span) => span.end.mock.calls.length === 1)).toBe(true);
+    });
+    test('A failing hook should not break the aggregation', async () => {
+        const instrumentedAggregator = new Aggregator({ user: userSource }, {
+            hooks: { aggregationStart: () => { throw new Error('Broken hook'); } },
+        });
+        const result = await instrumentedAggregator.aggregate({ userId: 'A' }, { "userId": { source: "user", to: { key: "user" } } });
+        expect(result.user).toEqual(users[0]);
+    });
+});
+
+describe('Streaming aggregation', () => {
+    let lookupUsing: jest.Mock;
+    let streamAggregator: Aggregator;
+    beforeEach(() => {
+        lookupUsing = jest.fn(findUsers);
+        streamAggregator = new Aggregator({ user: new SimpleEntitySource("user", { lookupUsing, entityIdBy: "id" }) });
+    });
+    const collect = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+        const records: T[] = [];
+        for await (const record of stream) {
+            records.push(record);
+        }
+        return records;
+    };
+    async function* rows(userIds: string[], delayAfter?: number) {
+        for (const [index, userId] of userIds.entries()) {
+            if (index === delayAfter) {
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }
+            yield { index, userId };
+        }
+    }
+    test('The records should be aggregated in windows and yielded in order, reusing the entities of the previous windows', async () => {
+        const records = await collect(streamAggregator.aggregateStream(rows(['A', 'A', 'B', 'A', 'B']), {
+            "userId": { source: "user", to: { key: "user" } },
+        }, { windowSize: 2 }));
+        expect(records.map((record) => [record.index, record.user.name])).toEqual([[0, 'Andy'], [1, 'Andy'], [2, 'Hai'], [3, 'Andy'], [4, 'Hai']]);
+        expect(lookupUsing.mock.calls.map((call) => call[0])).toEqual([['A'], ['B']]);
+    });
+    test('A window should be closed after maxWaitMs with the records received so far', async () => {
+        const records = await collect(streamAggregator.aggregateStream(rows(['A', 'B', 'A'], 2), {
+            "userId": { source: "user", to: { key: "user" } },
+        }, { windowSize: 10, maxWaitMs: 10 }));
+        expect(records).toHaveLength(3);
+        expect(lookupUsing.mock.calls.map((call) => call[0])).toEqual([['A', 'B']]);
+    });
+    test('The entities beyond maxEntities should be released between the windows', async () => {
+        await collect(streamAggregator.aggregateStream(['A', 'B', 'A'].map((userId) => ({ userId })), {
+            "userId": { source: "user", to: { key: "user" } },
+        }, { windowSize: 1, maxEntities: 1 }));
+        expect(lookupUsing.mock.calls.map((call) => call[0])).toEqual([['A'], ['B'], ['A']]);
+    });
+    test('An invalid window size or wait should be rejected', async () => {
+        const config = { "userId": { source: "user", to: { key: "user" } } } as const;
+        for (const windowSize of [0, -1, 1.5, NaN]) {
+            await expect(collect(streamAggregator.aggregateStream(rows(['A']), config, { windowSize }))).rejects.toThrow(InvalidConfigurationError);
+        }
+        await expect(collect(streamAggregator.aggregateStream(rows(['A']), config, { maxWaitMs: -1 })))
+            .rejects.toThrow('The option "maxWaitMs" must be a non-negative number, got -1.');
+        expect(lookupUsing).not.toHaveBeenCalled();
+    });
+    test('Stopping the consumer should stop the source', async () => {
+        let closed = false;
+        async function* endless() {
+            try {
+                for (let index = 0; ; index++) {
+                    yield { userId: index % 2 === 0 ? 'A' : 'B' };
+                }
+            } finally {
+                closed = true;
+            }
+        }
+        let count = 0;
+        for await (const record of streamAggregator.aggregateStream(endless(), { "userId": { source: "user", to: { key: "user" } } }, { windowSize: 3 })) {
+            expect(record.user).toBeDefined();
+            if (++count === 4) {
+                break;
+            }
+        }
+        expect(closed).toBe(true);
+    });
+});
+
+describe('Merge strategies', () => {
+    const record = () => ({ id: 'R1', userId: 'A', profile: { city: 'Hanoi' } });
+    const profiles = [{ id: 'A', name: 'Andy', profile: { language: 'vi' } }];
+    const profileSource = new SimpleEntitySource("profile", { lookupUsing: (ids) => profiles.filter((profile) => ids.includes(profile.id)), entityIdBy: "id" });
+    const mergingAggregator = new Aggregator({ user: userSource, todo: todoSource, profile: profileSource });
+
+    test('By default: the entity should be deep merged, overwriting the existing fields', async () => {
+        const result = await mergingAggregator.aggregate(record(), { "userId": { source: "profile" } });
+        expect(result).toEqual({ id: 'A', userId: 'A', name: 'Andy', profile: { city: 'Hanoi', language: 'vi' } });
+    });
+    test('A shallow merge should replace the nested objects', async () => {
+        const result = await mergingAggregator.aggregate(record(), { "userId": { source: "profile", merge: "shallow" } });
+        expect(result).toEqual({ id: 'A', userId: 'A', name: 'Andy', profile: { language: 'vi' } });
+    });
+    test('Preserving the existing fields should only add the missing ones', async () => {
+        const result = await mergingAggregator.aggregate(record(), { "userId": { source: "profile", merge: "preserve" } });
+        expect(result).toEqual({ id: 'R1', userId: 'A', name: 'Andy', profile: { city: 'Hanoi' } });
+    });
+    test('A prefix should be added to the keys of the entity', async () => {
+        const result = await mergingAggregator.aggregate(record(), { "userId": { source: "user", merge: { prefix: "user_" } } });
+        expect(result).toEqual({ id: 'R1', userId: 'A', user_id: 'A', user_name: 'Andy', profile: { city: 'Hanoi' } });
+    });
+    test('A custom merger should give the merged object', async () => {
+        const result = await mergingAggregator.aggregate([record()], {
+            "*.userId": { source: "user", merge: (target, user) => ({ ...target, owner: user.name }) },
+        });
+        expect(result).toEqual([{ id: 'R1', userId: 'A', owner: 'Andy', profile: { city: 'Hanoi' } }]);
+    });
+    test('Two enrichments writing the same key of an object should be reported', async () => {
+        const mergeConflict = jest.fn();
+        const reportingAggregator = new Aggregator({ user: userSource, todo: todoSource }, { hooks: { mergeConflict } });
+        const result = await reportingAggregator.aggregate([{ userId: 'A', todoId: 'T1' }], {
+            "userId": { source: "user" },
+            "todoId": { source: "todo", merge: "shallow" },
+        });
+        expect(result).toEqual([{ userId: 'A', todoId: 'T1', id: 'T1', name: 'Andy', task: 'Study' }]);
+        expect(mergeConflict).toHaveBeenCalledTimes(1);
+        expect(mergeConflict).toHaveBeenCalledWith({ source: 'todo', key: 'id', path: '[0]', paths: ['[0].userId', '[0].todoId'] });
+    });
+    test('An entity merged over the key of another enrichment should be reported too', async () => {
+        const mergeConflict = jest.fn();
+        const reportingAggregator = new Aggregator({ user: userSource, todo: todoSource }, { hooks: { mergeConflict } });
+        await reportingAggregator.aggregate({ userId: 'A', todoId: 'T1' }, {
+            "userId": { source: "user", to: { key: "task" } },
+            "todoId": { source: "todo" },
+        });
+        expect(mergeConflict).toHaveBeenCalledWith({ source: 'todo', key: 'task', path: '', paths: ['userId', 'todoId'] });
+    });
+    test('When set to throw: a conflict should reject with a MergeConflictError', async () => {
+        const strictAggregator = new Aggregator({ user: userSource, todo: todoSource }, { onMergeConflict: "throw" });
+        const aggregation = strictAggregator.aggregate({ userId: 'A', todoId: 'T1' }, {
+            "userId": { source: "user" },
+            "todoId": { source: "todo" },
+        });
+        await expect(aggregation).rejects.toThrow(MergeConflictError);
+        await expect(strictAggregator.aggregate({ userId: 'A', todoId: 'T1' }, {
+            "userId": { source: "user", merge: { prefix: "user_" } },
+            "todoId": { source: "todo", merge: { prefix: "todo_" } },
+        })).resolves.toEqual({ userId: 'A', todoId: 'T1', user_id: 'A', user_name: 'Andy', todo_id: 'T1', todo_task: 'Study' });
+    });
+    test('An invalid strategy should be rejected when compiled', () => {
+        expect(() => mergingAggregator.compile({ "userId": { source: "user", to: { key: "user" }, merge: "shallow" } })).toThrow(InvalidConfigurationError);
+        expect(() => mergingAggregator.compile({ "userId": { source: "user", merge: { prefix: "" } } })).toThrow(InvalidConfigurationError);
+    });
+});
+
+describe('Polymorphic and conditional enrichment', () => {
+    const activities = () => [
+        { id: 'E1', targetType: 'user', targetId: 'A' },
+        { id: 'E2', targetType: 'todo', targetId: 'T1' },
+        { id: 'E3', targetType: 'user', targetId: 'B' },
+        { id: 'E4', targetType: 'team', targetId: 'X' },
+    ];
+    let lookupUsers: jest.Mock;
+    let lookupTodos: jest.Mock;
+    let polymorphicAggregator: Aggregator<'user' | 'todo'>;
+
+    beforeEach(() => {
+        lookupUsers = jest.fn(findUsers);
+        lookupTodos = jest.fn(findTodos);
+        polymorphicAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: lookupUsers, entityIdBy: "id" }),
+            todo: new SimpleEntitySource("todo", { lookupUsing: lookupTodos, entityIdBy: "id" }),
+        });
+    });
+
+    test('The source should be chosen by a sibling field, and the IDs batched per source', async () => {
+        const result = await polymorphicAggregator.aggregate(activities().slice(0, 3), {
+            "*.targetId": { source: { field: "targetType" }, to: { key: "target" } },
+        });
+        expect(result.map((activity) => activity.target)).toEqual([users[0], todos[0], users[1]]);
+        expect(lookupUsers).toHaveBeenCalledTimes(1);
+        expect(lookupUsers).toHaveBeenCalledWith(['A', 'B']);
+        expect(lookupTodos).toHaveBeenCalledTimes(1);
+        expect(lookupTodos).toHaveBeenCalledWith(['T1']);
+    });
+    test('The values of the field should be mapped to the sources', async () => {
+        const result = await polymorphicAggregator.aggregate([{ kind: 'person', ownerId: 'A' }, { kind: 'task', ownerId: 'T2' }], {
+            "*.ownerId": { source: { field: "kind", map: { person: "user", task: "todo" } }, to: { key: "owner" } },
+        });
+        expect(result).toEqual([
+            { kind: 'person', ownerId: 'A', owner: users[0] },
+            { kind: 'task', ownerId: 'T2', owner: todos[1] },
+        ]);
+    });
+    test('The source should be chosen by a function of the parent object', async () => {
+        const result = await polymorphicAggregator.aggregate(activities(), {
+            "*.targetId": { source: (activity) => activity.targetType === 'todo' ? "todo" : null, to: { key: "target" } },
+        });
+        expect(result.map((activity) => activity.target)).toEqual([undefined, todos[0], undefined, undefined]);
+        expect(lookupUsers).not.toHaveBeenCalled();
+    });
+    test('The objects not matching "when" should not be enriched', async () => {
+        const result = await polymorphicAggregator.aggregate(activities(), {
+            "*.targetId": { source: "user", to: { key: "user" }, when: (activity) => activity.targetType === 'user' },
+        });
+        expect(result.map((activity) => activity.user)).toEqual([users[0], undefined, users[1], undefined]);
+        expect(lookupUsers).toHaveBeenCalledWith(['A', 'B']);
+    });
+    test('A source chosen at runtime should be registered', async () => {
+        await expect(polymorphicAggregator.aggregate(activities(), {
+            "*.targetId": { source: (activity) => activity.targetType, to: { key: "target" } },
+        })).rejects.toThrow(UnknownSourceError);
+        expect(() => polymorphicAggregator.compile({
+            // @ts-expect-error "team" is not a registered source
+            "*.targetId": { source: { field: "targetType", map: { team: "team" } } },
+        })).toThrow(UnknownSourceError);
+        expect(() => polymorphicAggregator.compile({
+            "*.targetId": { source: "user", when: true as any },
+        })).toThrow(InvalidConfigurationError);
+    });
+    test('The plan should list every source a path may look up', () => {
+        const plan = polymorphicAggregator.compile({
+            "*.targetId": { source: { field: "targetType", map: { user: "user", todo: "todo" } }, to: { key: "target" } },
+        });
+        expect(plan.explain().sources).toEqual([
+            { name: 'user', paths: ['*.targetId'] },
+            { name: 'todo', paths: ['*.targetId'] },
+        ]);
+    });
+});
+
+describe('Missing entities', () => {
+    const tasks = () => [
+        { id: 'K1', assigneeId: 'A', watcherIds: ['B', 'Z'] },
+        { id: 'K2', assigneeId: 'Y', watcherIds: [] },
+        { id: 'K3', assigneeId: null, watcherIds: ['X'] },
+    ];
+
+    test('With "report": the missing entities should be listed per source with the paths of their IDs', async () => {
+        const { data, unresolved } = await aggregator.aggregate(tasks(), {
+            "*.assigneeId": { source: "user", to: { key: "assignee" } },
+            "*.watcherIds": { source: "user", to: { key: "watchers" } },
+        }, { report: true });
+        expect(data.map((task) => task.assignee)).toEqual([users[0], null, null]);
+        expect(unresolved).toEqual({
+            user: [
+                { id: 'Z', path: '[0].watcherIds[1]' },
+                { id: 'Y', path: '[1].assigneeId' },
+                { id: 'X', path: '[2].watcherIds[0]' },
+            ],
+        });
+        await expect(aggregator.aggregate(null as { assigneeId: string } | null, { "assigneeId": { source: "user" } }, { report: true })).resolves.toEqual({ data: null, unresolved: {} });
+    });
+    test('The default should be injected instead of the missing entities', async () => {
+        const result = await aggregator.aggregate(tasks(), {
+            "*.assigneeId": { source: "user", to: { key: "assignee" }, default: { name: 'Unknown' } },
+            "*.watcherIds": { source: "user", to: { key: "watchers" }, transform: (user) => user.name, default: (id) => `#${id}` },
+        });
+        expect(result).toEqual([
+            { id: 'K1', assigneeId: 'A', watcherIds: ['B', 'Z'], assignee: users[0], watchers: ['Hai', '#Z'] },
+            { id: 'K2', assigneeId: 'Y', watcherIds: [], assignee: { name: 'Unknown' }, watchers: [] },
+            { id: 'K3', assigneeId: null, watcherIds: ['X'], assignee: null, watchers: ['#X'] },
+        ]);
+    });
+    test('A falsy default should be injected as it is, even with omitNull', async () => {
+        const result = await aggregator.aggregate({ assigneeId: 'Y', reviewerId: 'Y', ownerId: 'Y' }, {
+            "assigneeId": { source: "user", to: { key: "assignee", omitNull: true }, default: 0 },
+            "reviewerId": { source: "user", to: { key: "reviewer", omitNull: true }, default: false },
+            "ownerId": { source: "user", to: { key: "owner", omitNull: true }, default: '' },
+        });
+        expect(result).toEqual({ assigneeId: 'Y', reviewerId: 'Y', ownerId: 'Y', assignee: 0, reviewer: false, owner: '' });
+    });
+    test('The default should replace the entities of a failed lookup with the "null" policy', async () => {
+        const failingAggregator = new Aggregator({
+            user: new SimpleEntitySource("user", { lookupUsing: () => { throw new Error('Unavailable'); }, entityIdBy: "id" }),
+        }, { onError: "null" });
+        const result = await failingAggregator.aggregate({ assigneeId: 'A' }, { "assigneeId": { source: "user", merge: "preserve", default: { name: 'Unknown' } } });
+        expect(result).toEqual({ assigneeId: 'A', name: 'Unknown' });
+    });
+    test('In strict mode: a missing entity should reject with an EntityNotFoundError, unless its path has a default', async () => {
+        const strictAggregator = new Aggregator({ user: userSource }, { strict: true });
+        const aggregation = strictAggregator.aggregate(tasks(), { "*.assigneeId": { source: "user", to: { key: "assignee" } } });
+        await expect(aggregation).rejects.toThrow(EntityNotFoundError);
+        await expect(aggregation).rejects.toMatchObject({ source: 'user', id: 'Y', paths: ['[1].assigneeId'] });
+        await expect(strictAggregator.aggregate(tasks(), { "*.watcherIds": { source: "user", to: { key: "watchers" } } }))
+            .rejects.toMatchObject({ source: 'user', id: 'Z', paths: ['[0].watcherIds[1]'] });
+        await expect(strictAggregator.aggregate(tasks(), {
+            "*.assigneeId": { source: "user", to: { key: "assignee" }, default: null },
+        })).resolves.toHaveLength(3);
+        await expect(aggregator.aggregate(tasks(), {
+            "*.assigneeId": { source: "user", to: { key: "assignee" } },
+        }, { strict: true })).rejects.toThrow(EntityNotFoundError);
+    });
+});
+
+describe('Transforms', () => {
+    test('The transform should receive the context of the entity', async () => {
+        const transform = jest.fn((user) => user.name);
+        const data = { tasks: [{ ownerId: 'A', watcherIds: ['B'] }] };
+        const result = await aggregator.aggregate(data, {
+            "tasks.ownerId": { source: "user", to: { key: "owner" }, transform },
+            "tasks.watcherIds": { source: "user", to: { key: "watchers" }, transform },
+        }, { context: { locale: 'vi' } });
+        expect(result.tasks[0]).toEqual({ ownerId: 'A', watcherIds: ['B'], owner: 'Andy', watchers: ['Hai'] });
+        expect(transform).toHaveBeenCalledWith(users[0], {
+            parent: result.tasks[0], root: result, path: 'tasks[0].ownerId', id: 'A', source: 'user', context: { locale: 'vi' },
+        });
+        expect(transform).toHaveBeenCalledWith(users[1], expect.objectContaining({ path: 'tasks[0].watcherIds', id: 'B' }));
+    });
+    test('An async transform should be awaited, e.g. to redact the entities for the viewer', async () => {
+        const canSee = async (viewer: string, user: { id: string }) => viewer === user.id;
+        const result = await aggregator.aggregate([{ authorId: 'A' }, { authorId: 'B' }], {
+            "*.authorId": {
+                source: "user",
+                to: { key: "author" },
+                transform: async (user, { context }) => await canSee(context.viewer, user) ? user : _.omit(user, "name"),
+            },
+        }, { context: { viewer: 'A' } });
+        expect(result).toEqual([{ authorId: 'A', author: users[0] }, { authorId: 'B', author: { id: 'B' } }]);
+    });
+    test('The transform of a source may be async, and should receive the context of the session', async () => {
+        const translatingAggregator = new Aggregator({
+            todo: new SimpleEntitySource("todo", {
+                lookupUsing: findTodos,
+                entityIdBy: "id",
+                transform: async (todo, context) => ({ ...todo, task: `${todo.task} (${context.locale})` }),
+            }),
+        });
+        const result = await translatingAggregator.aggregate({ todoId: 'T1' }, { "todoId": { source: "todo", to: { key: "todo" } } }, { context: { locale: 'en' } });
+        expect(result.todo).toEqual({ id: 'T1', task: 'Study (en)' });
+    });
+});
+
+describe('Collapsing', () => {
+    const task = () => ({ id: 'K1', assigneeId: 'A', watcherIds: ['B', 'A'], todo: { todoId: 'T1' } });
+
+    test('The injected entities should be removed, and the removed ID fields restored', async () => {
+        const config = {
+            "assigneeId": { source: "user", to: { key: "assignee" }, removeIdKey: true },
+            "watcherIds": { source: "user", to: { key: "watchers" }, removeIdKey: true },
+            "todo.todoId": { source: "todo", to: { key: "details" } },
+        } as const;
+        const aggregated = await aggregator.aggregate(task(), config);
+        expect(aggregated).toEqual({ id: 'K1', assignee: users[0], watchers: [users[1], users[0]], todo: { todoId: 'T1', details: todos[0] } });
+        aggregated.assignee = users[1];
+        expect(aggregator.collapse(aggregated, config)).toEqual({ ...task(), assigneeId: 'B' });
+    });
+    test('The merged fields and the arrays of merged entities should be collapsed, including the nested aggregations', async () => {
+        const config = {
+            "*.assigneeId": { source: "user", merge: { prefix: "assignee_" }, removeIdKey: true },
+            "*.watcherIds": { source: "user" },
+            "*.todo.todoId": { source: "todo", select: ["task"], aggregate: { "ownerId": { source: "user", to: { key: "owner" } } } },
+        } as const;
+        // The owner is a field of the object the todo is merged into, which the typed sources cannot check
+        const untypedAggregator = new Aggregator<"user" | "todo">({ user: userSource, todo: todoSource });
+        const aggregated = await untypedAggregator.aggregate([{ ...task(), todo: { todoId: 'T1', ownerId: 'B' } }], config);
+        expect(aggregated[0]).toMatchObject({ assignee_name: 'Andy', watcherIds: [users[1], users[0]], todo: { task: 'Study', owner: users[1] } });
+        expect(untypedAggregator.collapse(aggregated, config)).toEqual([{ ...task(), todo: { todoId: 'T1', ownerId: 'B' } }]);
+    });
+    test('The groups of a GroupedEntitySource should give the ID of their parent', async () => {
+        const comments = [{ id: 'C1', taskId: 'K1' }];
+        const groupingAggregator = new Aggregator({
+            comments: new GroupedEntitySource("comments", { lookupUsing: (ids) => comments.filter((comment) => ids.includes(comment.taskId)), groupBy: "taskId" }),
+        });
+        const config = { "taskId": { source: "comments", to: { key: "comments" }, removeIdKey: true } } as const;
+        const aggregated = await groupingAggregator.aggregate({ taskId: 'K1' }, config);
+        expect(groupingAggregator.collapse(aggregated, config, { immutable: true })).toEqual({ taskId: 'K1' });
+        expect(aggregated).toEqual({ comments });
+    });
+    test('The entities merged without known fields should not be collapsed', async () => {
+        const aggregated = await aggregator.aggregate(task(), { "assigneeId": { source: "user" } });
+        expect(() => aggregator.collapse(aggregated, { "assigneeId": { source: "user" } })).toThrow(InvalidConfigurationError);
+        expect(() => aggregator.collapse(aggregated, { "assigneeId": { source: "user", select: ["name"], merge: "preserve" } })).toThrow(InvalidConfigurationError);
+    });
+});
+
+describe('Type inference', () => {
+    type Member = { id: string; name: string; teamId: string };
+    type Team = { id: string; title: string };
+    type Post = { id: string; authorId: string; reviewerIds: string[] };
+    const members: Member[] = [{ id: 'A', name: 'Andy', teamId: 'X' }, { id: 'B', name: 'Hai', teamId: 'X' }];
+    const teams: Team[] = [{ id: 'X', title: 'Core' }];
+    const inferringAggregator = new Aggregator({
+        member: new SimpleEntitySource<Member>("member", {
+            lookupUsing: (ids: string[]) => members.filter((member) => ids.includes(member.id)),
+            entityIdBy: "id",
+        }),
+        team: new SimpleEntitySource<Team>("team", {
+            lookupUsing: (ids: string[]) => teams.filter((team) => ids.includes(team.id)),
+            entityIdBy: "id",
+        }),
+    });
+    const post: Post = { id: 'P1', authorId: 'A', reviewerIds: ['B'] };
+
+    test('The type of the aggregated data should be inferred from the configuration', async () => {
+        const result = await inferringAggregator.aggregate(post, {
+            "authorId": {
+                source: "member",
+                to: { key: "author" },
+                removeIdKey: true,
+                aggregate: { "teamId": { source: "team", to: { key: "team", omitNull: true } } },
+            },
+            "reviewerIds": { source: "member", transform: (member: Member) => member.name },
+        });
+        const title: string | undefined = result.author?.team?.title;
+        const trimmed = await inferringAggregator.aggregate(post, { "authorId": { source: "member", to: { key: "author" }, select: ["name"] } });
+        // @ts-expect-error Only the name is selected
+        expect(trimmed.author?.teamId).toBeUndefined();
+        const reviewers: (string | null)[] = result.reviewerIds;
+        // @ts-expect-error The ID field is removed
+        expect(result.authorId).toBeUndefined();
+        expect(title).toBe('Core');
+        expect(reviewers).toEqual(['Hai']);
+    });
+    test('The merge strategies should shape the merged fields', async () => {
+        const draft = (): Post => ({ id: 'P2', authorId: 'A', reviewerIds: ['B'] });
+        const prefixed = await inferringAggregator.aggregate(draft(), { "authorId": { source: "member", merge: { prefix: "author_" } } });
+        const authorName: string = prefixed.author_name;
+        // @ts-expect-error The name of the author is prefixed
+        expect(prefixed.name).toBeUndefined();
+        const preserved = await inferringAggregator.aggregate(draft(), { "authorId": { source: "member", merge: "preserve" } });
+        const reviewerIds: string[] = preserved.reviewerIds;
+        const name: string = preserved.name;
+        expect(authorName).toBe('Andy');
+        expect([preserved.id, name, reviewerIds]).toEqual(['P2', 'Andy', ['B']]);
+    });
+    test('The entities of a polymorphic or conditional path should be optional', async () => {
+        const mention = { kind: 'member', refId: 'A' };
+        const result = await inferringAggregator.aggregate(mention, {
+            "refId": { source: { field: "kind", map: { member: "member", team: "team" } }, to: { key: "ref" } },
+        });
+        const ref: Member | Team | null | undefined = result.ref;
+        const conditional = await inferringAggregator.aggregate({ ...post, authorId: 'A' }, {
+            "authorId": { source: "member", to: { key: "author" }, when: (parent) => parent.id !== 'P0' },
+        });
+        // @ts-expect-error The author may not be set
+        const author: Member | null = conditional.author;
+        expect(ref).toEqual(members[0]);
+        expect(author?.name).toBe('Andy');
+    });
+    test('The result of an async transform should be awaited', async () => {
+        const result = await inferringAggregator.aggregate({ ...post, authorId: 'A' }, {
+            "authorId": { source: "member", to: { key: "author" }, transform: async (member: Member) => member.name.length },
+        });
+        const length: number | null = result.author;
+        expect(length).toBe(4);
+    });
+    test('The report and the defaults should be typed', async () => {
+        const { data, unresolved } = await inferringAggregator.aggregate({ ...post, authorId: 'Z' }, {
+            "authorId": { source: "member", to: { key: "author" }, default: { name: 'Unknown' } },
+        }, { report: true });
+        const author: Member | { name: string } | null = data.author;
+        // @ts-expect-error The default has no team
+        expect(data.author?.teamId).toBeUndefined();
+        expect(author).toEqual({ name: 'Unknown' });
+        expect(unresolved.member).toEqual([{ id: 'Z', path: 'authorId' }]);
+    });
+    test('Nullable input should result in nullable output', async () => {
+        const nullablePost = null as Post | null;
+        const result = await inferringAggregator.aggregate(nullablePost, { "authorId": { source: "member", to: { key: "author" } } });
+        // @ts-expect-error The result may be null
+        const readAuthor = () => result.author;
+        const author: Member | null | undefined = result?.author;
+        expect(readAuthor).toThrow(TypeError);
+        expect(author).toBeUndefined();
+    });
+    test('Invalid paths and unknown sources should be rejected at compile time', async () => {
+        // @ts-expect-error "authorID" is not a path of Post
+        await inferringAggregator.aggregate(post, { "authorID": { source: "member" } });
+        // @ts-expect-error "teamID" is not a path of Member
+        await inferringAggregator.aggregate(post, { "authorId": { source: "member", aggregate: { "teamID": { source: "team" } } } });
+        await expect(
+            // @ts-expect-error "user" is not a registered source
+            inferringAggregator.aggregate(post, { "authorId": { source: "user" } })
+        ).rejects.toThrow(UnknownSourceError);
+    });
+});
@@ -1,5 +1,13 @@
 import _ from "lodash";
-import { AggregationConfiguration, AggregationMode, EntitySource, SingleAggregationOpts, SingleEnrichmentConfig } from "./types";
+import { AggregationSession } from "./AggregationSession";
+import { AggregationPlan, compileConfiguration, CompiledPlan, getModeFromConfig } from "./AggregationPlan";
+import { Aggregated, AggregationResult, Reported, SourceRegistry, ValidatedConfiguration } from "./inference";
+import { Instrumentation } from "./instrumentation";
+import { AggregationError, EntityNotFoundError, InvalidConfigurationError, MaxDepthExceededError, MergeConflictError, SourceLookupError, SourceTimeoutError, UnknownSourceError } from "./errors";
+import { AggregateOpts, AggregateStreamOpts, AggregationConfiguration, AggregationMode, AggregationReport, AggregatorOpts, EntityKey, EntitySource, ErrorPolicy, KeySerializer, MergeConflictPolicy, MergeStrategy, SingleAggregationOpts, SingleEnrichmentConfig, SourcePolicy, TransformContext } from "./types";
+import { createLimiter, defaultKeySerializer, Limiter, windowsOf, withRetry, withTimeout } from "./utils";
+import { collectPathsAndValues, joinPath } from "./paths";
+import { collapseData } from "./collapse";
 
 /**
  * Aggregator is a class that can be used to aggregate data from multiple sources.
@@ -9,14 +17,34 @@ import { AggregationConfiguration, AggregationMode, EntitySource, SingleAggregat
  * 
  * An entity source must be firstly registered to the aggregator with a name using the register() method.
  * Then that name can be used to identify the source in the AggregationConfiguration.
+ * 
+ * When the sources are given to the constructor, their names and entity types are inferred (`TRegistry`),
+ *  so that the configurations are checked and the type of the aggregated data is inferred at compile time.
  */
-export class Aggregator<TSourceKey extends string = string> {
+export class Aggregator<TSourceKey extends string = string, TRegistry extends SourceRegistry<TSourceKey> = SourceRegistry<TSourceKey>> {
     private sources: Map<TSourceKey, EntitySource> = new Map();
+    private maxDepth: number;
+    private immutable: boolean;
+    private onError: ErrorPolicy;
+    private sessions: boolean;
+    private limiter?: Limiter;
+    private policies: Map<TSourceKey, SourcePolicy> = new Map();
+    private instrumentation: Instrumentation;
+    private onMergeConflict: MergeConflictPolicy;
+    private strict: boolean;
 
-    constructor(sources?: Record<TSourceKey, EntitySource>) {
+    constructor(sources?: TRegistry & Record<TSourceKey, EntitySource>, opts?: AggregatorOpts<TSourceKey>) {
+        this.maxDepth = opts?.maxDepth ?? 10;
+        this.immutable = opts?.immutable ?? false;
+        this.onError = opts?.onError ?? "throw";
+        this.sessions = opts?.sessions ?? true;
+        this.limiter = opts?.maxConcurrency !== undefined ? createLimiter(opts.maxConcurrency) : undefined;
+        this.instrumentation = new Instrumentation(opts?.hooks, opts?.tracer);
+        this.onMergeConflict = opts?.onMergeConflict ?? "report";
+        this.strict = opts?.strict ?? false;
         if (sources) {
-            for (const sourceName in sources) {
-                this.register(sourceName, sources[sourceName]);
+            for (const sourceName of Object.keys(sources) as TSourceKey[]) {
+                this.register(sourceName, sources[sourceName], opts?.policies?.[sourceName]);
             }
         }
     }
@@ -26,10 +54,16 @@ export class Aggregator<TSourceKey extends string = string> {
      * 
      * @param name The name of the entity source
      * @param source The entity source instance that implements the EntitySource interface
+     * @param policy The error policy, timeout and retries for the entity source
      * @returns 
      */
-    public register(name: TSourceKey, source: EntitySource): this {
+    public register(name: TSourceKey, source: EntitySource, policy?: SourcePolicy): this {
         this.sources.set(name, source);
+        if (policy) {
+            this.policies.set(name, policy);
+        } else {
+            this.policies.delete(name);
+        }
         return this;
     }
 
@@ -45,163 +79,711 @@ export class Aggregator<TSourceKey extends string = string> {
 
     /**
      * Start the aggregation process and return the aggregated data.
-     * Note that the data is not copied, so you should not expect the data to be the same after the aggregation.
+     * Note that the data is not copied, so you should not expect the data to be the same after the aggregation,
+     *  unless the `immutable` option is set.
+     * 
+     * Unless sessions are disabled, the entities prepared for this call are held by a session
+     *  that only lives as long as the call.
+     * 
+     * The entities injected by an option with a nested `aggregate` configuration are aggregated in turn.
+     * Each depth level is processed in one round, which prepares every entity source at most once.
      * 
      * @param data The data to enrich/aggregate
-     * @param options The configuation for the aggregation.
-     * @returns The data with the enrichments.
+     * @param options The configuation for the aggregation. Its paths are checked against the type of the data.
+     * @param opts The options for this aggregation call, overriding the options of the aggregator.
+     * @returns The data with the enrichments. Its type is inferred from the configuration.
+     *  With the option `report`, an AggregationReport holding the data and the missing entities.
+     * @throws {PathSyntaxError} If a path of the configuration cannot be parsed.
+     * @throws {UnknownSourceError} If the configuration refers to an entity source that is not registered.
+     * @throws {InvalidConfigurationError} If the configuration is invalid, see `compile`.
+     * @throws {SourceLookupError} If an entity source fails and the error policy is "throw".
+     * @throws {EntityNotFoundError} If a referenced entity is missing in strict mode.
      */
-    public async aggregate<TInput>(data: TInput | null, options: AggregationConfiguration<TSourceKey>): Promise<any> {
+    public async aggregate<
+        TInput,
+        const TConfig extends AggregationConfiguration<TSourceKey> & ValidatedConfiguration<NonNullable<TInput>, TConfig, TRegistry>,
+        TOpts extends AggregateOpts = AggregateOpts,
+    >(
+        data: TInput,
+        options: TConfig,
+        opts?: TOpts,
+    ): Promise<Reported<AggregationResult<TInput, TConfig, TRegistry>, TOpts>> {
         if (!data) {
-            return null;
+            return (opts?.report ? { data: null, unresolved: {} } : null) as Reported<AggregationResult<TInput, TConfig, TRegistry>, TOpts>;
+        }
+        return this.execute(data, this.compileConfiguration(options), opts);
+    }
+
+    /**
+     * Compile a configuration into a plan, which can aggregate data many times without validating
+     *  and parsing the configuration again.
+     * 
+     * Besides the paths and the entity sources, the options are validated up front: `to` requires a key,
+     *  two paths cannot write to the same key, and a path cannot write over the IDs of another path.
+     * 
+     * @param options The configuation for the aggregation.
+     * @returns The plan, which also describes the aggregation with `explain()`.
+     * @throws {PathSyntaxError} If a path of the configuration cannot be parsed.
+     * @throws {UnknownSourceError} If the configuration refers to an entity source that is not registered.
+     * @throws {InvalidConfigurationError} If the configuration is invalid.
+     */
+    public compile<const TConfig extends AggregationConfiguration<TSourceKey>>(options: TConfig): AggregationPlan<TConfig, TRegistry> {
+        const plan = this.compileConfiguration(options);
+        return new AggregationPlan(plan, (data, opts) => this.execute(data, plan, opts));
+    }
+
+    /**
+     * Undo an aggregation with the same configuration, e.g. before saving an object sent back by a client.
+     * The entities put at the target keys are removed, and the arrays of merged entities are replaced by their IDs.
+     * The fields of a merged entity are removed if they are known: the selected fields, or the fields with the prefix.
+     * 
+     * The ID fields removed by `removeIdKey` are restored with the IDs read from the entities by the sources (`idOf`),
+     *  e.g. with their `entityIdBy` option. The IDs of the missing entities cannot be restored.
+     * 
+     * @param data The aggregated data
+     * @param options The configuration used for the aggregation
+     * @param opts `immutable`: return a copy instead of modifying the data. Defaults to the option of the aggregator.
+     * @returns The data without the entities
+     * @throws {PathSyntaxError} If a path of the configuration cannot be parsed.
+     * @throws {UnknownSourceError} If the configuration refers to an entity source that is not registered.
+     * @throws {InvalidConfigurationError} If the configuration is invalid, or the fields of a merged entity are not known.
+     */
+    public collapse<TOutput = any>(data: unknown, options: AggregationConfiguration<TSourceKey>, opts?: Pick<AggregateOpts, "immutable">): TOutput {
+        const plan = this.compileConfiguration(options);
+        const target = (opts?.immutable ?? this.immutable) ? _.cloneDeep(data) : data;
+        if (target) {
+            collapseData(target, plan, (pathOption, parent, path) => {
+                const sourceName = this.resolveSource(pathOption.source as SingleAggregationOpts<TSourceKey>["source"], parent, path);
+                return sourceName === undefined ? undefined : this.sources.get(sourceName);
+            });
         }
-        // Extract entity sources to be used from options
-        const entitySourceNames = _.uniq(_.map(options, (value) => value.source));
+        return target as TOutput;
+    }
 
+    /**
+     * Aggregate the records of an (async) iterable, e.g. the rows of a database cursor, without holding all of them in memory.
+     * The records are grouped into windows, which are aggregated one after another like arrays given to `aggregate`,
+     *  and the enriched records are yielded in order.
+     * 
+     * Unless a session is given, the windows share a session of the stream, so that the entities are not looked up again
+     *  in every window. The session is trimmed to `maxEntities` entities per source after each window.
+     * 
+     * @param source The records to aggregate
+     * @param options The configuation for the aggregation.
+     * @param opts The options for the stream and for the aggregation of the windows.
+     * @returns The enriched records.
+     * @throws {InvalidConfigurationError} If `windowSize` is not a positive integer, or `maxWaitMs` is negative.
+     */
+    public async *aggregateStream<TInput, const TConfig extends AggregationConfiguration<TSourceKey> & ValidatedConfiguration<NonNullable<TInput>, TConfig, TRegistry>>(
+        source: AsyncIterable<TInput> | Iterable<TInput>,
+        options: TConfig,
+        opts?: AggregateStreamOpts,
+    ): AsyncGenerator<Aggregated<TInput, TConfig, TRegistry>> {
+        const windowSize = opts?.windowSize ?? 100;
+        if (!(Number.isInteger(windowSize) && windowSize > 0)) {
+            throw new InvalidConfigurationError(`The option "windowSize" must be a positive integer, got ${windowSize}.`, []);
+        }
+        if (opts?.maxWaitMs !== undefined && !(opts.maxWaitMs >= 0)) {
+            throw new InvalidConfigurationError(`The option "maxWaitMs" must be a non-negative number, got ${opts.maxWaitMs}.`, []);
+        }
+        const plan = this.compileConfiguration(options);
+        const streamSession = !opts?.session && this.sessions ? new AggregationSession(opts?.context, this.limiter, this.instrumentation) : undefined;
+        const session = opts?.session ?? streamSession;
+        for await (const window of windowsOf(source, windowSize, opts?.maxWaitMs)) {
+            const aggregated: Aggregated<TInput, TConfig, TRegistry>[] = await this.execute(window, plan, { ...opts, session });
+            streamSession?.trim(opts?.maxEntities ?? 10000);
+            for (const record of aggregated) {
+                yield record;
+            }
+        }
+    }
+
+    private compileConfiguration(options: AggregationConfiguration<TSourceKey>): CompiledPlan {
+        return compileConfiguration(options, [...this.sources.keys()]);
+    }
+
+    /**
+     * Run the aggregation of a compiled configuration, reporting it to the hooks and the tracer.
+     */
+    private async execute(data: any, plan: CompiledPlan, opts?: AggregateOpts): Promise<any> {
+        const session = opts?.session ?? (this.sessions ? new AggregationSession(opts?.context, this.limiter, this.instrumentation) : undefined);
+        const context = session?.context ?? opts?.context ?? {};
+        const run: AggregationRun = {
+            immutable: opts?.immutable ?? this.immutable,
+            session,
+            context,
+            plan,
+            round: 0,
+            writes: new WeakMap(),
+            strict: opts?.strict ?? this.strict,
+            unresolved: opts?.report ? {} : undefined,
+        };
+        const startedAt = Date.now();
+        this.instrumentation.emit("aggregationStart", { context });
+        try {
+            const result = await this.instrumentation.trace("aggregation", {}, () => this.aggregateRounds(data, run));
+            this.instrumentation.emit("aggregationEnd", { context, duration: Date.now() - startedAt, rounds: run.round });
+            return run.unresolved ? { data: result, unresolved: run.unresolved } : result;
+        } catch (error) {
+            this.instrumentation.emit("aggregationEnd", { context, duration: Date.now() - startedAt, rounds: run.round, error });
+            throw error;
+        }
+    }
+
+    /**
+     * Run the rounds of the aggregation until there is no nested aggregation left.
+     */
+    private async aggregateRounds(data: any, run: AggregationRun): Promise<any> {
+        const options = run.plan.root as AggregationConfiguration<TSourceKey>;
+        if (run.immutable) {
+            data = _.cloneDeep(data);
+        }
+        run.root = data;
+        // Remember which objects have been aggregated with which configuration,
+        //  so that entities referencing each other are not aggregated over and over again
+        const visited = new WeakMap<object, Set<AggregationConfiguration<TSourceKey>>>();
+        let tasks: AggregationTask<TSourceKey>[] = [{ data, options, path: "", lineage: [] }];
+        for (let depth = 0; tasks.length > 0; depth++) {
+            if (depth >= this.maxDepth) {
+                throw new MaxDepthExceededError(this.maxDepth, _.uniq(tasks.map((task) => task.path)));
+            }
+            run.round = depth + 1;
+            const nestedTasks = await this.aggregateRound(tasks, run);
+            tasks = [];
+            for (const task of nestedTasks) {
+                const configs = visited.get(task.data) || new Set();
+                if (configs.has(task.options)) {
+                    continue;
+                }
+                configs.add(task.options);
+                visited.set(task.data, configs);
+                tasks.push(task);
+            }
+        }
+        return data;
+    }
+
+    /**
+     * Run one collect/prepare/inject round for all the given tasks.
+     * 
+     * @returns The tasks for the entities that should be aggregated in the next round.
+     */
+    private async aggregateRound(tasks: AggregationTask<TSourceKey>[], run: AggregationRun): Promise<AggregationTask<TSourceKey>[]> {
         // Collect all ids to be gathered and populated
         // The paths are sorted by length, so that the shortest paths are processed first
-        const sourceToIds = new Map<TSourceKey, string[]>();
-        const pathToEnrichmentConfigMap: { [path: string]: SingleEnrichmentConfig<TSourceKey>[] } = {};
-
-        const sortedPaths = _.sortBy(Object.keys(options), (path) => path.split(".").length);
-        // Scan through all the options and the data to find the IDs to be gathered
-        for (const path of sortedPaths) {
-            const pathOption = options[path];
-            const sourceName = pathOption.source;
-            let realPath = path;
-            // Ignore the first '*.'
-            if (realPath.startsWith("*.")) {
-                realPath = realPath.substring(2);
-            }
+        const sourceToIds = new Map<TSourceKey, EntityKey[]>();
+        const sourceToPaths = new Map<TSourceKey, string[]>();
+        const taskEnrichments: { task: AggregationTask<TSourceKey>; pathToEnrichmentConfigMap: { [path: string]: SingleEnrichmentConfig<TSourceKey>[] } }[] = [];
 
-            // Collect the IDs to be gathered and add them to the existing IDs list
-            const existingIds = sourceToIds.get(sourceName) || [];
-            const collectedPathDescriptors = collectPathsAndValues(data, realPath);
-            const collectedIds = _.uniq(_.map(collectedPathDescriptors, "value"));
-            sourceToIds.set(sourceName, _.uniq([...existingIds, ...collectedIds]));
-            // Define the replacement and its path in the data,
-            //  so that it can be replaced later
-            for (const pathDescriptor of collectedPathDescriptors) {
-                let concretePath = _.dropRight(pathDescriptor.path.split(".")).join(".");
-                const enrichmentConfig = {
-                    id: pathDescriptor.value,
-                    objectAbsent: pathDescriptor.objectAbsent,
-                    idKeyPath: pathDescriptor.path,
-                    ...pathOption,
+        for (const task of tasks) {
+            const { data, options } = task;
+            const pathToEnrichmentConfigMap: { [path: string]: SingleEnrichmentConfig<TSourceKey>[] } = {};
+            // Scan through all the options and the data to find the IDs to be gathered
+            for (const { segments, options: compiledOption, fields } of run.plan.configs.get(options)!.paths) {
+                const pathOption = compiledOption as SingleAggregationOpts<TSourceKey>;
+                let collectedPathDescriptors = collectPathsAndValues(data, segments);
+                if (pathOption.compositeKey) {
+                    collectedPathDescriptors = collectedPathDescriptors.map((descriptor) =>
+                        ({ ...descriptor, value: buildCompositeKey(data, descriptor.parentPath, pathOption.compositeKey!) }));
+                }
+                // Define the replacement and its path in the data,
+                //  so that it can be replaced later
+                for (const pathDescriptor of collectedPathDescriptors) {
+                    const concretePath = pathDescriptor.parentPath;
+                    const parent = concretePath.length > 0 ? _.get(data, concretePath) : data;
+                    if (pathOption.when && !pathDescriptor.objectAbsent && !pathOption.when(parent)) {
+                        continue;
+                    }
+                    const sourceName = this.resolveSource(pathOption.source, parent, joinPath(task.path, pathDescriptor.path));
+                    if (sourceName === undefined) {
+                        continue;
+                    }
+                    const enrichmentConfig: SingleEnrichmentConfig<TSourceKey> = {
+                        id: pathDescriptor.value,
+                        objectAbsent: pathDescriptor.objectAbsent,
+                        idKeyPath: pathDescriptor.path,
+                        ...pathOption,
+                        // The selected fields, with the fields the nested configuration reads
+                        ...(fields && { select: fields }),
+                        source: sourceName,
+                    }
+                    const existingConfigs = pathToEnrichmentConfigMap[concretePath] || [];
+                    existingConfigs.push(enrichmentConfig);
+                    pathToEnrichmentConfigMap[concretePath] = existingConfigs;
+                    // The IDs are batched per source, fields holding an array of IDs contribute all of their members
+                    // The null IDs stay in place in the data, but are not looked up
+                    const existingIds = sourceToIds.get(sourceName) || [];
+                    existingIds.push(..._.castArray(pathDescriptor.value).filter((id) => !_.isNil(id)));
+                    sourceToIds.set(sourceName, existingIds);
+                    if (!pathDescriptor.objectAbsent) {
+                        const sourcePaths = sourceToPaths.get(sourceName) || [];
+                        sourcePaths.push(joinPath(task.path, pathDescriptor.path));
+                        sourceToPaths.set(sourceName, sourcePaths);
+                    }
                 }
-                const existingConfigs = pathToEnrichmentConfigMap[concretePath] || [];
-                existingConfigs.push(enrichmentConfig);
-                pathToEnrichmentConfigMap[concretePath] = existingConfigs;
             }
+            taskEnrichments.push({ task, pathToEnrichmentConfigMap });
+        }
+
+        for (const [sourceName, ids] of sourceToIds) {
+            sourceToIds.set(sourceName, _.uniqBy(ids, this.keySerializerOf(sourceName)));
         }
 
         // Initiate the preparation process. This will make sure that the data is ready to be used.
         // All the entity sources should be prepared before the aggregation process.
+        // A failed source does not stop the others, its error is handled below according to the error policies.
+        const failedSources = new Map<TSourceKey, SourceLookupError>();
         const preparePromises: Promise<any>[] = [];
-        for (const sourceName of entitySourceNames) {
-            if (!this.sources.has(sourceName)) {
-                throw new Error(`Entity source ${sourceName} is not registered.`);
-            }
-            const ids = sourceToIds.get(sourceName) || [];
+        for (const [sourceName, ids] of sourceToIds) {
             if (ids.length === 0) {
                 continue;
             }
-            const promise = this.sources.get(sourceName)!.prepare(ids);
+            const promise = this.prepareSource(sourceName, ids, sourceToPaths.get(sourceName) || [], run)
+                .catch((error: SourceLookupError) => failedSources.set(sourceName, error));
             preparePromises.push(promise);
         }
         await Promise.all(preparePromises);
+        for (const [sourceName, error] of failedSources) {
+            const mustThrow = _.some(taskEnrichments, ({ pathToEnrichmentConfigMap }) =>
+                _.some(_.flatten(_.values(pathToEnrichmentConfigMap)), (enrichmentConfig) =>
+                    enrichmentConfig.source === sourceName && this.getErrorPolicy(enrichmentConfig) === "throw"));
+            if (mustThrow) {
+                throw error;
+            }
+        }
 
         // Enrich the data
         // Iterate over the paths and inject the enrichments to the desired place
-        for (const path of _.keys(pathToEnrichmentConfigMap)) {
-            const enrichmentConfigs = pathToEnrichmentConfigMap[path];
-            for (const enrichmentConfig of enrichmentConfigs) {
-                const { id,
-                    source: sourceName,
-                    removeIdKey: removeKey,
-                    idKeyPath: idKey,
-                    objectAbsent,
-                    transform } = enrichmentConfig;
-                if (objectAbsent) {
-                    continue;
-                }
-                const mode = getModeFromConfig(enrichmentConfig);
-                let enrichmentData = await this.sources.get(sourceName)!.get(id);
-                // Transform the data if the transform function is provided
-                if (transform && _.isFunction(transform)) {
-                    enrichmentData = transform(enrichmentData);
-                }
-                if (mode === AggregationMode.MERGE) {
-                    if (path.length > 0) {
-                        let finalReplacement = enrichmentData ? _.merge(_.get(data, path), enrichmentData) : _.get(data, path);
-                        _.set(data as any, path, finalReplacement);
+        const nestedTasks: AggregationTask<TSourceKey>[] = [];
+        for (const { task, pathToEnrichmentConfigMap } of taskEnrichments) {
+            const data = task.data;
+            for (const path of _.keys(pathToEnrichmentConfigMap)) {
+                const enrichmentConfigs = pathToEnrichmentConfigMap[path];
+                for (const enrichmentConfig of enrichmentConfigs) {
+                    const { id,
+                        source: sourceName,
+                        removeIdKey: removeKey,
+                        idKeyPath: idKey,
+                        objectAbsent } = enrichmentConfig;
+                    if (objectAbsent) {
+                        continue;
+                    }
+                    const mode = getModeFromConfig(enrichmentConfig);
+                    const source = this.sources.get(sourceName)!;
+                    const failure = failedSources.get(sourceName);
+                    const serializeKey = this.keySerializerOf(sourceName);
+                    // The index is given for the elements of an array of IDs, so that a missing entity is reported under its element
+                    const getFromSource = async (entityId: EntityKey, index?: number) => {
+                        if (_.isNil(entityId)) {
+                            return null;
+                        }
+                        if (failure) {
+                            throw failure;
+                        }
+                        let entity: any;
+                        try {
+                            entity = await source.get(entityId, run.session, run.plan.projections.get(sourceName));
+                        } catch (error) {
+                            throw new SourceLookupError(sourceName, [joinPath(task.path, idKey)], error);
+                        }
+                        if (_.isNil(entity) && !_.isNil(entityId)) {
+                            const idPath = index === undefined ? joinPath(task.path, idKey) : `${joinPath(task.path, idKey)}[${index}]`;
+                            this.instrumentation.emit("entityMissing", { source: sourceName, id: entityId, path: idPath });
+                            if (run.unresolved) {
+                                run.unresolved[sourceName] = [...run.unresolved[sourceName] ?? [], { id: entityId, path: idPath }];
+                            }
+                            if (run.strict && enrichmentConfig.default === undefined) {
+                                throw new EntityNotFoundError(sourceName, entityId, idPath);
+                            }
+                        }
+                        return entity;
+                    };
+                    const transformContext = { parent: path.length > 0 ? _.get(data, path) : data, root: run.root, path: joinPath(task.path, idKey), source: sourceName, context: run.context };
+                    let enrichmentData: any;
+                    try {
+                        enrichmentData = await resolveEnrichment(getFromSource, serializeKey, enrichmentConfig, transformContext, run);
+                    } catch (error) {
+                        if (!(error instanceof SourceLookupError)) {
+                            throw error;
+                        }
+                        const policy = this.getErrorPolicy(enrichmentConfig);
+                        if (policy === "throw") {
+                            throw error;
+                        } else if (policy === "skip") {
+                            continue;
+                        }
+                        enrichmentData = await resolveEnrichment(async () => null, serializeKey, enrichmentConfig, transformContext, run);
+                    }
+
+                    // The place where the entity ends up, which is aggregated in the next round if needed
+                    let injectedPath = path;
+                    // The keys of the injected entities, used to detect cycles in nested aggregations
+                    let injectedKeys: string[] = [];
+                    if (_.isArray(id)) {
+                        // An array of entities cannot be merged into the object,
+                        // so it replaces the array of IDs instead
+                        injectedPath = mode === AggregationMode.TO_KEY ? joinPath(path, enrichmentConfig.to!.key) : idKey;
+                        _.set(data, injectedPath, enrichmentData);
+                        if (removeKey && idKey && injectedPath !== idKey) {
+                            _.unset(data, idKey);
+                        }
+                        injectedKeys = id.map((entityId) => `${sourceName}:${serializeKey(entityId)}`);
+                        if (mode === AggregationMode.TO_KEY) {
+                            this.recordWrites(path.length > 0 ? _.get(data, path) : data, [enrichmentConfig.to!.key], joinPath(task.path, path), joinPath(task.path, idKey), sourceName, run);
+                        }
                     } else {
-                        data = enrichmentData ? _.merge(data, enrichmentData) : data;
+                        if (mode === AggregationMode.MERGE) {
+                            const target = path.length > 0 ? _.get(data, path) : data;
+                            if (enrichmentData && !(isMergeable(enrichmentData) && isMergeable(target))) {
+                                throw new InvalidConfigurationError(
+                                    `The entity of ${sourceName} for the path "${joinPath(task.path, idKey)}" cannot be merged: both the entity and the object holding the ID must be objects. Use the option "to" instead.`,
+                                    [joinPath(task.path, idKey)], sourceName);
+                            }
+                            if (enrichmentData) {
+                                const { merged, keys } = mergeEntity(target, enrichmentData, enrichmentConfig.merge);
+                                if (path.length > 0) {
+                                    _.set(data, path, merged);
+                                } else if (merged !== data) {
+                                    // The data itself cannot be replaced, so the fields of the merged object are copied to it
+                                    Object.assign(data, merged);
+                                }
+                                this.recordWrites(path.length > 0 ? merged : data, keys, joinPath(task.path, path), joinPath(task.path, idKey), sourceName, run);
+                            }
+                        } else if (mode === AggregationMode.TO_KEY) {
+                            const targetKey = enrichmentConfig.to!.key;
+                            const omitNull = enrichmentConfig.to!.omitNull;
+                            const targetPath = joinPath(path, targetKey);
+                            // Transform all nullish to null, the falsy values (e.g. a default of 0) are kept
+                            const finalReplacement = enrichmentData ?? null;
+                            _.set(data, targetPath, finalReplacement);
+                            if (omitNull && _.isNil(finalReplacement)) {
+                                _.unset(data, targetPath);
+                            }
+                            injectedPath = targetPath;
+                            this.recordWrites(path.length > 0 ? _.get(data, path) : data, [targetKey], joinPath(task.path, path), joinPath(task.path, idKey), sourceName, run);
+                        }
+
+                        if (removeKey && idKey) {
+                            // A composite ID is made of several fields, which are all removed
+                            const idKeyPaths = enrichmentConfig.compositeKey
+                                ? _.values(enrichmentConfig.compositeKey).map((fieldPath) => joinPath(path, fieldPath))
+                                : [idKey];
+                            idKeyPaths.forEach((idKeyPath) => _.unset(data, idKeyPath));
+                        }
+                        injectedKeys = [`${sourceName}:${serializeKey(id)}`];
                     }
-                } else if (mode === AggregationMode.TO_KEY) {
-                    const targetKey = enrichmentConfig.to!.key;
-                    const omitNull = enrichmentConfig.to!.omitNull;
-                    const targetPath = joinPath(path, targetKey);
-                    // Transform all nullish to null;
-                    const finalReplacement = enrichmentData || null;
-                    _.set(data as any, joinPath(path, targetKey), enrichmentData || null);
-                    if (omitNull && finalReplacement === null) {
-                        _.unset(data as any, targetPath);
+
+                    // Stop at entities that already appear in their own lineage
+                    if (enrichmentConfig.aggregate && !injectedKeys.some((key) => task.lineage.includes(key))) {
+                        const injected = injectedPath.length > 0 ? _.get(data, injectedPath) : data;
+                        const lineage = [...task.lineage, ...injectedKeys];
+                        // Arrays of entities are split up, since the same entity may appear in other places
+                        for (const target of collectObjects(injected, joinPath(task.path, injectedPath))) {
+                            nestedTasks.push({ ...target, options: enrichmentConfig.aggregate, lineage });
+                        }
                     }
                 }
+            }
+        }
+        return nestedTasks;
+    }
 
-                if (removeKey && idKey) {
-                    _.unset(data, idKey);
+    /**
+     * Remember which enrichment wrote which keys of the object, and report the keys already written by another enrichment.
+     *
+     * @param target The object written to
+     * @param keys The keys written to the object
+     * @param path The path of the object, for the reports
+     * @param writer The path of the ID of the enrichment
+     * @param sourceName The name of the entity source of the enrichment
+     * @throws {MergeConflictError} If another enrichment wrote one of the keys, and the aggregator throws on merge conflicts.
+     */
+    private recordWrites(target: any, keys: string[], path: string, writer: string, sourceName: TSourceKey, run: AggregationRun) {
+        if (!_.isObject(target)) {
+            return;
+        }
+        let writers = run.writes.get(target);
+        if (!writers) {
+            writers = new Map();
+            run.writes.set(target, writers);
+        }
+        for (const key of keys) {
+            const previous = writers.get(key);
+            if (previous !== undefined && previous !== writer) {
+                const paths = [previous, writer];
+                this.instrumentation.emit("mergeConflict", { source: sourceName, key, path, paths });
+                if (this.onMergeConflict === "throw") {
+                    throw new MergeConflictError(key, path, paths, sourceName);
                 }
             }
+            writers.set(key, writer);
         }
-        return data;
+    }
+
+    /**
+     * Prepare an entity source, applying the timeout and the retries of its policy.
+     * The preparation is reported to the hooks and the tracer.
+     * 
+     * @throws {SourceLookupError} If the entity source fails to prepare the IDs.
+     */
+    private async prepareSource(sourceName: TSourceKey, ids: EntityKey[], paths: string[], run: AggregationRun): Promise<void> {
+        const source = this.sources.get(sourceName)!;
+        const policy = this.policies.get(sourceName);
+        // The sources running their lookups through a session sharing the limiter are limited lookup by lookup,
+        //  the others are limited as a whole, so that the limit holds for every source
+        const limitedBySession = !!this.limiter && !!source.schedulesLookups && !!run.session?.isLimitedBy(this.limiter);
+        const schedule = (!limitedBySession && this.limiter) || ((task: () => Promise<void>) => task());
+        const event = { source: sourceName, ids: ids.length, round: run.round };
+        const attributes = { "aggregation.source": sourceName, "aggregation.ids": ids.length, "aggregation.round": run.round };
+        const startedAt = Date.now();
+        this.instrumentation.emit("sourcePrepareStart", event);
+        try {
+            await this.instrumentation.trace("aggregation.prepare", attributes, () => withRetry(() => withTimeout(
+                schedule(() => source.prepare(ids, run.session, run.plan.projections.get(sourceName))),
+                policy?.timeout,
+                () => new SourceTimeoutError(sourceName, paths, policy!.timeout!),
+            ), policy?.retry));
+        } catch (error) {
+            const failure = error instanceof AggregationError ? error : new SourceLookupError(sourceName, paths, error);
+            this.instrumentation.emit("sourcePrepareEnd", { ...event, duration: Date.now() - startedAt, error: failure });
+            throw failure;
+        }
+        this.instrumentation.emit("sourcePrepareEnd", { ...event, duration: Date.now() - startedAt });
+    }
+
+    /**
+     * Choose the entity source for the object holding an ID.
+     *
+     * @returns The name of the source, or undefined if no source is found for the object.
+     * @throws {UnknownSourceError} If the chosen source is not registered.
+     */
+    private resolveSource(source: SingleAggregationOpts<TSourceKey>["source"], parent: any, path: string): TSourceKey | undefined {
+        if (_.isString(source)) {
+            return source;
+        }
+        let sourceName: TSourceKey | null | undefined;
+        if (_.isFunction(source)) {
+            sourceName = source(parent);
+        } else {
+            const value = _.get(parent, source.field);
+            sourceName = _.isNil(value) ? undefined : source.map ? source.map[`${value}`] : `${value}` as TSourceKey;
+        }
+        if (_.isNil(sourceName)) {
+            return undefined;
+        }
+        if (!this.sources.has(sourceName)) {
+            throw new UnknownSourceError(sourceName, [path]);
+        }
+        return sourceName;
+    }
+
+    /**
+     * Get the function the entity source uses to tell which IDs are equal.
+     */
+    private keySerializerOf(sourceName: TSourceKey): KeySerializer {
+        const source = this.sources.get(sourceName)!;
+        return source.serializeKey ? (id: EntityKey) => source.serializeKey!(id) : defaultKeySerializer;
+    }
+
+    private getErrorPolicy(opts: SingleEnrichmentConfig<TSourceKey>): ErrorPolicy {
+        return opts.onError ?? this.policies.get(opts.source)?.onError ?? this.onError;
     }
 }
 
 
-type PathDescriptor = { path: string; value: string; objectAbsent?: boolean };
+type AggregationTask<TSourceKey extends string> = {
+    data: any;
+    options: AggregationConfiguration<TSourceKey>;
+    // The path of the data from the root, used in the errors
+    path: string;
+    // The keys (`<source>:<id>`) of the entities this data has been injected through
+    lineage: string[];
+};
+
+type AggregationRun = {
+    // Copy the input and the entities, so that neither the caller's data nor the sources are modified
+    immutable: boolean;
+    // The session given to the sources, if sessions are enabled
+    session?: AggregationSession;
+    // The context of the call, given to the transforms
+    context: Record<string, any>;
+    // The data being aggregated, after the copy in immutable mode
+    root?: any;
+    // The compiled configuration
+    plan: CompiledPlan;
+    // The current round, starting at 1
+    round: number;
+    // The keys written to the objects, with the paths of the IDs of the enrichments that wrote them
+    writes: WeakMap<object, Map<string, string>>;
+    // Throw when a referenced entity is missing
+    strict: boolean;
+    // The missing entities by source, if a report is requested
+    unresolved?: AggregationReport<unknown>["unresolved"];
+};
+
+/**
+ * Build the composite ID from the fields of the object holding the ID field.
+ * If any of the fields is missing, there is no ID.
+ */
+function buildCompositeKey(data: any, parentPath: string, compositeKey: { [keyName: string]: string }): EntityKey | null {
+    const parent = parentPath.length > 0 ? _.get(data, parentPath) : data;
+    const key = _.mapValues(compositeKey, (fieldPath) => _.get(parent, fieldPath));
+    return _.some(key, _.isNil) ? null : key;
+}
 
-function collectPathsAndValues(obj: any, path: string): PathDescriptor[] {
-    let collectedPaths = _collectPathsAndValues(obj, path);
-    if (!_.isArray(collectedPaths)) {
-        collectedPaths = [collectedPaths];
+/**
+ * Get the data to inject for one enrichment, with the transform applied.
+ */
+async function resolveEnrichment(
+    get: (id: EntityKey, index?: number) => Promise<any>,
+    serializeKey: KeySerializer,
+    enrichmentConfig: SingleEnrichmentConfig<string>,
+    transformContext: Omit<TransformContext, "id">,
+    run: AggregationRun,
+): Promise<any> {
+    const { id, transform } = enrichmentConfig;
+    if (_.isArray(id)) {
+        return getEntities(get, serializeKey, id, enrichmentConfig, transformContext, run);
+    }
+    let enrichmentData = copyEntity(await get(id), enrichmentConfig, run);
+    if (isMissing(enrichmentData, id) && enrichmentConfig.default !== undefined) {
+        return defaultOf(enrichmentConfig, id);
     }
-    return _.flattenDeep(collectedPaths);
+    if (_.isArray(enrichmentData)) {
+        enrichmentData = sortAndLimit(enrichmentData, enrichmentConfig);
+    }
+    enrichmentData = projectEntity(enrichmentData, enrichmentConfig);
+    // Transform the data if the transform function is provided
+    if (transform && _.isFunction(transform)) {
+        enrichmentData = await transform(enrichmentData, { ...transformContext, id });
+    }
+    return enrichmentData;
 }
 
-function _collectPathsAndValues(obj: any, path: string, cumulatedPath: string = "") {
-    if (_.isArray(obj)) {
-        return obj.map((o, index) => _collectPathsAndValues(o, path, `${cumulatedPath}[${index}]`));
-    }
-    let currentKey = path.split(".")[0];
-    let restPath = path.substring(currentKey.length + 1);
-    if (currentKey === "*") {
-        return _collectPathsAndValues(obj, restPath, cumulatedPath);
-    }
-    const pathToCurrentKey = joinPath(cumulatedPath, currentKey);
-    const objValue = _.get(obj, currentKey);
-    if (restPath.length === 0) {
-        return {
-            path: pathToCurrentKey,
-            value: objValue,
-            objectAbsent: !obj,
-        };
+/**
+ * Get the entities for an array of IDs, keeping the order of the IDs.
+ */
+async function getEntities(
+    get: (id: EntityKey, index: number) => Promise<any>,
+    serializeKey: KeySerializer,
+    ids: EntityKey[],
+    opts: SingleAggregationOpts,
+    transformContext: Omit<TransformContext, "id">,
+    run: AggregationRun,
+): Promise<any[]> {
+    const elements = ids.map((id, index) => ({ id, index }));
+    const elementsToGet = opts.many?.unique ? _.uniqBy(elements, ({ id }) => serializeKey(id)) : elements;
+    let entities = await Promise.all(elementsToGet.map(async ({ id, index }) => {
+        const found = await get(id, index);
+        if (isMissing(found, id) && opts.default !== undefined) {
+            return defaultOf(opts, id);
+        }
+        let entity = projectEntity(copyEntity(found, opts, run), opts);
+        if (opts.transform && _.isFunction(opts.transform)) {
+            entity = await opts.transform(entity, { ...transformContext, id });
+        }
+        return entity ?? null;
+    }));
+    if (opts.many?.omitMissing) {
+        entities = entities.filter((entity) => entity !== null);
+    }
+    return entities;
+}
+
+function isMissing(entity: any, id: EntityKey): boolean {
+    return _.isNil(entity) && !_.isNil(id);
+}
+
+/**
+ * The default of a path for a missing entity. A default value is copied, so that the injected defaults can be modified independently.
+ */
+function defaultOf(opts: SingleAggregationOpts, id: EntityKey): any {
+    return _.isFunction(opts.default) ? opts.default(id) : _.cloneDeep(opts.default);
+}
+
+/**
+ * Copy the entity given by a source in immutable mode,
+ *  so that neither the transforms nor the later injections can modify the source's memory.
+ * The entities aggregated in turn are always copied: the source gives the same object wherever the entity is referenced,
+ *  so the nested entities written onto it would link the occurrences to each other, up to cycles.
+ */
+function copyEntity<T>(entity: T, opts: SingleAggregationOpts, run: AggregationRun): T {
+    return run.immutable || opts.aggregate ? _.cloneDeep(entity) : entity;
+}
+
+/**
+ * Only objects can be merged into the object holding the ID, not arrays (e.g. the groups of a GroupedEntitySource) or primitives.
+ */
+function isMergeable(entity: any): boolean {
+    return _.isObject(entity) && !_.isArray(entity) && !_.isFunction(entity);
+}
 
+/**
+ * Merge an entity into the object holding its ID with the strategy of the path.
+ *
+ * @returns The merged object, and the keys written to it.
+ */
+function mergeEntity(target: any, entity: any, strategy: MergeStrategy = "deep"): { merged: any; keys: string[] } {
+    if (_.isFunction(strategy)) {
+        const previous = { ...target };
+        const merged = strategy(target, entity);
+        return { merged, keys: Object.keys(merged).filter((key) => !(key in previous) || merged[key] !== previous[key]) };
+    }
+    if (strategy === "preserve") {
+        const keys = Object.keys(entity).filter((key) => target[key] === undefined);
+        keys.forEach((key) => target[key] = entity[key]);
+        return { merged: target, keys };
+    }
+    if (strategy === "shallow") {
+        return { merged: Object.assign(target, entity), keys: Object.keys(entity) };
+    }
+    if (strategy === "deep") {
+        return { merged: _.merge(target, entity), keys: Object.keys(entity) };
+    }
+    const keys = Object.keys(entity).map((key) => `${strategy.prefix}${key}`);
+    Object.keys(entity).forEach((key) => target[`${strategy.prefix}${key}`] = entity[key]);
+    return { merged: target, keys };
+}
+
+/**
+ * Keep only the selected fields of an entity, and remove the omitted ones.
+ * The entities of a group are trimmed one by one.
+ */
+function projectEntity(entity: any, opts: SingleAggregationOpts): any {
+    if (!opts.select && !opts.omit) {
+        return entity;
+    }
+    if (_.isArray(entity)) {
+        return entity.map((element) => projectEntity(element, opts));
+    }
+    if (!_.isObject(entity)) {
+        return entity;
     }
-    return _collectPathsAndValues(objValue, restPath, pathToCurrentKey);
+    const selected = opts.select ? _.pick(entity, opts.select) : entity;
+    return opts.omit ? _.omit(selected, opts.omit) : selected;
 }
 
-function joinPath(base: string, key: string): string {
-    if (base.length === 0) {
-        return key;
+/**
+ * Apply the sort and limit options to an array of entities given by the source.
+ */
+function sortAndLimit(entities: any[], opts: SingleAggregationOpts): any[] {
+    let result = entities;
+    if (opts.sort) {
+        const iteratees = _.castArray(opts.sort.by);
+        result = _.orderBy(result, iteratees, iteratees.map(() => opts.sort!.order ?? "asc"));
     }
-    return `${base}.${key}`;
+    if (opts.limit !== undefined) {
+        result = _.take(result, opts.limit);
+    }
+    return result;
 }
 
-function getModeFromConfig(opts: SingleAggregationOpts): AggregationMode {
-    if (opts.to) {
-        return AggregationMode.TO_KEY;
+/**
+ * Find the objects in the value, going through the (nested) arrays.
+ */
+function collectObjects(value: any, path: string): { data: object; path: string }[] {
+    if (_.isArray(value)) {
+        return _.flatMap(value, (element, index) => collectObjects(element, `${path}[${index}]`));
     }
-    return AggregationMode.MERGE;
-}
\ No newline at end of file
+    return _.isObject(value) ? [{ data: value, path }] : [];
+}
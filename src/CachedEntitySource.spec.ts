@@ -0,0 +1,215 @@
+import { AggregationSession } from "./AggregationSession";
+import { CachedEntitySource, EntityCache } from "./CachedEntitySource";
+import { InProcessInvalidationTransport } from "./invalidation";
+
+class MapCache implements EntityCache {
+    store = new Map<string, any>();
+    setBatchCalls: { key: string; value: any; ttl?: number }[][] = [];
+
+    async get(key: string): Promise<any> {
+        return this.store.get(key) ?? null;
+    }
+
+    async setBatch(batch: { key: string; value: any; ttl?: number }[]): Promise<void> {
+        this.setBatchCalls.push(batch);
+        for (const { key, value } of batch) {
+            this.store.set(key, value);
+        }
+    }
+
+    async invalidate(keys: string[]): Promise<void> {
+        keys.forEach((key) => this.store.delete(key));
+    }
+}
+
+const users = [
+    { id: 'A', name: 'Andy' },
+    { id: 'B', name: 'Hai' }
+];
+
+describe('CachedEntitySource', () => {
+    let cache: MapCache;
+    let findUsersMock: jest.Mock;
+    let source: CachedEntitySource<any>;
+    beforeEach(() => {
+        cache = new MapCache();
+        findUsersMock = jest.fn((ids: string[]) => users.filter(user => ids.includes(user.id)));
+        source = new CachedEntitySource("user", {
+            cache,
+            lookupUsing: findUsersMock,
+            entityIdBy: "id",
+            aggregatorId: "test",
+        });
+    });
+    test('Happy path: the prepared entities should be served from the cache', async () => {
+        await source.prepare(['A', 'B']);
+        expect(await source.get('A')).toEqual(users[0]);
+        expect(await source.get('B')).toEqual(users[1]);
+        expect(cache.store.has('$aggcache::user::test::A')).toBe(true);
+    });
+    test('Only the IDs missing from the cache should be looked up', async () => {
+        await source.prepare(['A']);
+        await source.prepare(['A', 'B']);
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+        expect(findUsersMock.mock.calls[1][0]).toEqual(['B']);
+        await source.prepare(['B', 'A']);
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+    });
+    test('When the cache implements getBatch: it should be used instead of get', async () => {
+        const getBatch = jest.fn(async (keys: string[]) => keys.map((key) => cache.store.get(key) ?? null));
+        const getSpy = jest.spyOn(cache, 'get');
+        (cache as EntityCache).getBatch = getBatch;
+        await source.prepare(['A', 'B']);
+        expect(getBatch).toHaveBeenCalledTimes(1);
+        expect(getSpy).not.toHaveBeenCalled();
+    });
+    test('Without "cacheMissing": missing IDs should be looked up again', async () => {
+        await source.prepare(['X']);
+        await source.prepare(['X']);
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+    });
+    test('With "cacheMissing": missing IDs should be remembered and resolved to null', async () => {
+        source = new CachedEntitySource("user", {
+            cache,
+            lookupUsing: findUsersMock,
+            entityIdBy: "id",
+            cacheMissing: true,
+            ttl: 60,
+            missingTtl: 5,
+        });
+        await source.prepare(['A', 'X']);
+        await source.prepare(['A', 'X']);
+        expect(findUsersMock).toHaveBeenCalledTimes(1);
+        expect(await source.get('X')).toBeNull();
+        expect(cache.setBatchCalls[0].map((entry) => entry.ttl)).toEqual([60, 5]);
+    });
+    test('When "ttl" is set: it should be passed to the cache with every entry', async () => {
+        source = new CachedEntitySource("user", {
+            cache,
+            lookupUsing: findUsersMock,
+            entityIdBy: "id",
+            ttl: 30,
+        });
+        await source.prepare(['A', 'B']);
+        expect(cache.setBatchCalls[0].every((entry) => entry.ttl === 30)).toBe(true);
+    });
+    test('Given a session: the entities should be read from the session instead of the cache', async () => {
+        const session = new AggregationSession();
+        await source.prepare(['A'], session);
+        await source.prepare(['A', 'B', 'X'], session);
+        cache.store.clear();
+        expect(await source.get('A', session)).toEqual(users[0]);
+        expect(await source.get('B', session)).toEqual(users[1]);
+        expect(await source.get('X', session)).toBeNull();
+        expect(findUsersMock.mock.calls.map((call) => call[0])).toEqual([['A'], ['B', 'X']]);
+    });
+    test('Given a session: the entities found in the cache should be held by the session', async () => {
+        await source.prepare(['A']);
+        const session = new AggregationSession();
+        await source.prepare(['A'], session);
+        await cache.invalidate(['$aggcache::user::test::A']);
+        expect(await source.get('A', session)).toEqual(users[0]);
+        expect(findUsersMock).toHaveBeenCalledTimes(1);
+    });
+    test('Given fields: they should be looked up with the ID field and cached with the entity', async () => {
+        await source.prepare(['A'], undefined, ['name']);
+        expect(findUsersMock).toHaveBeenCalledWith(['A'], ['id', 'name']);
+        expect(cache.store.get('$aggcache::user::test::A')).toEqual({ __aggregatorProjection__: ['id', 'name'], entity: users[0] });
+        expect(await source.get('A', undefined, ['name'])).toEqual(users[0]);
+    });
+    test('Given fields: a cached entity should only be used if it holds all of them', async () => {
+        await source.prepare(['A'], undefined, ['name']);
+        await source.prepare(['A'], undefined, ['id']);
+        expect(findUsersMock).toHaveBeenCalledTimes(1);
+        await source.prepare(['A'], undefined, ['email']);
+        expect(findUsersMock).toHaveBeenCalledTimes(2);
+        await source.prepare(['A']);
+        expect(findUsersMock).toHaveBeenCalledTimes(3);
+        expect(cache.store.get('$aggcache::user::test::A')).toEqual(users[0]);
+        // A whole entity holds every field
+        await source.prepare(['A'], undefined, ['name']);
+        expect(findUsersMock).toHaveBeenCalledTimes(3);
+    });
+    test('Given a session: the entities prepared with different fields should be held apart', async () => {
+        const session = new AggregationSession();
+        await source.prepare(['A'], session, ['name']);
+        await source.prepare(['A'], session);
+        expect(findUsersMock.mock.calls).toEqual([[['A'], ['id', 'name']], [['A']]]);
+        expect(await source.get('A', session, ['name'])).toEqual(users[0]);
+        expect(await source.get('A', session)).toEqual(users[0]);
+    });
+});
+
+describe('Invalidation across instances', () => {
+    const members = [
+        { id: 'A', name: 'Andy', tenant: 'X' },
+        { id: 'B', name: 'Hai', tenant: 'Y' },
+    ];
+    let findMembersMock: jest.Mock;
+    let transport: InProcessInvalidationTransport;
+    const createSource = (cache: EntityCache, opts: { aggregatorId?: string; sharedKeys?: boolean } = {}) => new CachedEntitySource<typeof members[number]>("member", {
+        cache,
+        lookupUsing: findMembersMock,
+        entityIdBy: "id",
+        tagsOf: (member) => [`tenant:${member.tenant}`],
+        invalidation: transport,
+        ...opts,
+    });
+    beforeEach(() => {
+        findMembersMock = jest.fn((ids: string[]) => members.filter(member => ids.includes(member.id)));
+        transport = new InProcessInvalidationTransport();
+    });
+    test('An invalidation should be applied to the caches of the other instances', async () => {
+        const [firstCache, secondCache] = [new MapCache(), new MapCache()];
+        const [first, second] = [createSource(firstCache), createSource(secondCache)];
+        await first.prepare(['A', 'B']);
+        await second.prepare(['A', 'B']);
+        await first.invalidate(['A']);
+        expect(await second.get('A')).toBeNull();
+        expect(await second.get('B')).toEqual(members[1]);
+        second.close();
+        await first.invalidate(['B']);
+        expect(await second.get('B')).toEqual(members[1]);
+    });
+    test('Instances with shared keys should share the cached entities', async () => {
+        const cache = new MapCache();
+        const [first, second] = [createSource(cache, { sharedKeys: true }), createSource(cache, { sharedKeys: true, aggregatorId: "ignored" })];
+        await first.prepare(['A']);
+        await second.prepare(['A']);
+        expect(findMembersMock).toHaveBeenCalledTimes(1);
+        expect(cache.store.has('$aggcache::member::A')).toBe(true);
+        expect(await second.get('A')).toEqual(members[0]);
+    });
+    test('Invalidating a tag should make all the entities with that tag stale, in every instance', async () => {
+        const cache = new MapCache();
+        const [first, second] = [createSource(cache, { sharedKeys: true }), createSource(new MapCache())];
+        await first.prepare(['A', 'B']);
+        await second.prepare(['A', 'B']);
+        await second.invalidateTags(['tenant:X']);
+        expect(await first.get('A')).toBeNull();
+        expect(await first.get('B')).toEqual(members[1]);
+        await first.prepare(['A', 'B']);
+        expect(findMembersMock.mock.calls.map((call) => call[0])).toEqual([['A', 'B'], ['A', 'B'], ['A']]);
+        expect(await first.get('A')).toEqual(members[0]);
+    });
+    test('The entities invalidated during their lookup should not be cached', async () => {
+        const cache = new MapCache();
+        const source = createSource(cache);
+        let invalidateDuringLookup: (() => Promise<void>) | undefined;
+        findMembersMock.mockImplementation(async (ids: string[]) => {
+            const found = members.filter((member) => ids.includes(member.id)).map((member) => ({ ...member, name: 'old' }));
+            await invalidateDuringLookup?.();
+            return found;
+        });
+        invalidateDuringLookup = () => source.invalidateTags(['tenant:X']);
+        await source.prepare(['A', 'B']);
+        invalidateDuringLookup = () => source.invalidate(['A']);
+        await source.prepare(['A', 'B']);
+        invalidateDuringLookup = undefined;
+        findMembersMock.mockImplementation((ids: string[]) => members.filter((member) => ids.includes(member.id)));
+        await source.prepare(['A', 'B']);
+        expect(findMembersMock.mock.calls.map((call) => call[0])).toEqual([['A', 'B'], ['A'], ['A']]);
+        expect(await source.get('A')).toEqual(members[0]);
+        expect(await source.get('B')).toEqual({ ...members[1], name: 'old' });
+    });
+});
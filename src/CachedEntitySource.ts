@@ -1,4 +1,8 @@
-import { EntitySource, EntityLookupFunction, EntityIdGetter as EntityIdGetter } from "./types";
+import { AggregationSession } from "./AggregationSession";
+import { InvalidationMessage, InvalidationTransport } from "./invalidation";
+import { EntitySource, EntityLookupFunction, EntityIdGetter as EntityIdGetter, EntityKey, KeySerializer } from "./types";
+import _ from "lodash";
+import { createLimiter, defaultKeySerializer, Limiter, lookupFields, lookupInChunks, projectedKey, readEntityId } from "./utils";
 
 export interface EntityCache<T = any> {
     /**
@@ -7,17 +11,32 @@ export interface EntityCache<T = any> {
      */
     get(key: string): Promise<T | null>;
 
+    /**
+     * Get the cached objects for multiple keys at once.
+     * If not implemented, `get` is called for every key.
+     * @param keys The keys to look up
+     * @returns The cached objects in the same order as the keys, null for the keys not in the cache
+     */
+    getBatch?(keys: string[]): Promise<(T | null)[]>;
+
     /**
      * Put multiple objects to the cache.
-     * @param batch The key-value pairs of the key and object to put to the cache.
+     * @param batch The key-value pairs of the key and object to put to the cache,
+     *  with the time to live in seconds if the source is configured with one.
      */
-    setBatch(batch: { key: string; value: T }[]): Promise<void>;
+    setBatch(batch: { key: string; value: T; ttl?: number }[]): Promise<void>;
 
     /**
      * Invalidate the cache when mutations happen.
      * @param keys to invalidate
      */
     invalidate(keys: string[]): Promise<void>
+
+    /**
+     * Invalidate all the keys starting with the given prefix.
+     * @param prefix The prefix of the keys to invalidate
+     */
+    invalidatePrefix?(prefix: string): Promise<void>;
 }
 
 export type CachedEntitySourceOpts<T = any, TResult = T> = {
@@ -38,9 +57,10 @@ export type CachedEntitySourceOpts<T = any, TResult = T> = {
     entityIdBy: EntityIdGetter<T>;
 
     /**
-     * Transform the entity before storing it in the cache.
+     * Transform the entity before storing it in the cache. It may return a promise.
+     * Unlike the other sources, the context of the session is not given, since the cached entities are shared by all the aggregation calls.
      */
-    transform?: (data: T) => TResult;
+    transform?: (data: T) => TResult | Promise<TResult>;
 
     /**
      * The prefix to use for the cache key. This is used to avoid collisions with other kinds of cache.
@@ -52,6 +72,7 @@ export type CachedEntitySourceOpts<T = any, TResult = T> = {
      * If not provided, the default cache key function is used:
      * `$<cacheKeyPrefix>::<aggregatorName>::<aggregatorId>::<entityId>`.
      * If this function is provided, the cacheKeyPrefix will have no effect, since this function is used to generate the cache key.
+     * The function receives the serialized ID (see `serializeKeyUsing`).
      */
     cacheKeyUsing?: (id: string) => string;
 
@@ -59,16 +80,89 @@ export type CachedEntitySourceOpts<T = any, TResult = T> = {
      * The ID of the aggregator. This is useful when you have multiple aggregators of the same type (or name) accessing to the same cache section.
      */
     aggregatorId?: string;
+
+    /**
+     * Use the same cache keys in every instance of the source with the same name, e.g. in other processes,
+     *  so that the instances sharing a cache share the cached entities: `$<cacheKeyPrefix>::<name>::<entityId>`.
+     * The `aggregatorId` is then ignored. Defaults to false.
+     */
+    sharedKeys?: boolean;
+
+    /**
+     * The tags of an entity, e.g. `tenant:X`, to invalidate all the entities with a tag at once (see `invalidateTags`).
+     */
+    tagsOf?: (entity: T) => string[];
+
+    /**
+     * The transport broadcasting the invalidations to the other instances of the source with the same name,
+     *  e.g. in other processes or in other aggregators.
+     */
+    invalidation?: InvalidationTransport;
+
+    /**
+     * The time to live of the cached entities in seconds, passed to the cache with every entry.
+     */
+    ttl?: number;
+
+    /**
+     * Remember the IDs that the lookup function did not return, so that they are not looked up again until they expire.
+     * Defaults to false.
+     */
+    cacheMissing?: boolean;
+
+    /**
+     * The time to live in seconds of the remembered missing IDs. Defaults to `ttl`.
+     */
+    missingTtl?: number;
+
+    /**
+     * The maximum number of IDs given to the lookup function at once.
+     * Larger batches are split into chunks, and the results are merged. Defaults to no limit.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * The maximum number of chunks looked up at the same time by this source. Defaults to no limit.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * The function turning the IDs into strings. Two IDs are considered equal when their serializations are equal.
+     * Defaults to the string conversion, and JSON with sorted properties for composite keys.
+     */
+    serializeKeyUsing?: KeySerializer;
 };
 
+/**
+ * The value stored in the cache for an ID that could not be found.
+ * It is a plain object, so that it survives the serialization of any cache.
+ */
+const MISSING_ENTITY = { __aggregatorMissingEntity__: true };
+
+/**
+ * The value stored in the cache for an entity looked up with only some of its fields, or with tags.
+ * The versions of the tags are stored with the entity, which is stale as soon as one of the versions changes.
+ */
+type CachedEntry<T> = { __aggregatorProjection__?: string[]; __aggregatorTags__?: Record<string, string>; entity: T };
+
 /**
  * An implementation of the EntitySource interface that uses a cache to store the entities.
- * The cache can be invalidated when the entities change.
+ * Only the IDs missing from the cache are looked up.
+ * Given a session, the entities read from the cache or looked up are also held by the session,
+ *  so that `get` does not depend on the cache anymore.
+ * The cache hits and misses are reported to the hooks of the aggregator through the session.
+ * The entities looked up with only some fields are cached together with the list of their fields,
+ *  and only read back by the aggregations needing a subset of those fields, so that one cache key per ID is enough.
+ * The cache can be invalidated when the entities change, by ID, by tag or entirely.
+ * The invalidations are broadcast to the other instances of the source through the invalidation transport, if any.
+ * A tag is invalidated by deleting its version from the cache, so that all the entries stored with that version become stale.
  * 
  * The cache instance must implement the EntityCache interface,
  *  so you can implement an Adapter for any kind of cache you prefer to use.
  */
 export class CachedEntitySource<T, TResult = T | null> implements EntitySource<T, TResult> {
+    // The lookups are run through `session.schedule`
+    readonly schedulesLookups = true;
     private cache: EntityCache<TResult>;
     private name: string;
     private lookupFunc: EntityLookupFunction<T>;
@@ -76,49 +170,325 @@ export class CachedEntitySource<T, TResult = T | null> implements EntitySource<T
     private uniqueId: string;
     private cacheKeyPrefix: string;
     private cacheKeyUsing: (id: string) => string;
-    private transform: (element: T) => TResult;
+    private customCacheKey: boolean;
+    private transform: (element: T) => TResult | Promise<TResult>;
+    private maxBatchSize?: number;
+    private limit: Limiter;
+    private keySerializer: KeySerializer;
+    private ttl?: number;
+    private cacheMissing: boolean;
+    private missingTtl?: number;
+    private sharedKeys: boolean;
+    private tagsOf?: (entity: T) => string[];
+    private invalidation?: InvalidationTransport;
+    // Tells the messages of this instance apart, since the aggregatorId may be shared by several instances
+    private instanceId: string;
+    private unsubscribe?: () => void;
+    // The invalidations applied during each lookup in flight
+    private lookupsInFlight = new Set<Invalidation[]>();
 
     constructor(name: string, opts: CachedEntitySourceOpts<T, TResult>) {
         this.name = name;
         this.lookupFunc = opts.lookupUsing;
         this.lookupIdGetter = opts.entityIdBy;
         this.cache = opts.cache;
-        this.uniqueId = opts.aggregatorId ?? (Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15));
+        this.uniqueId = opts.aggregatorId ?? randomId();
         this.cacheKeyPrefix = opts.cacheKeyPrefix ?? "aggcache";
 
         // Only modify when you know what you are doing, otherwise things will get 
         this.cacheKeyUsing = opts.cacheKeyUsing ?? ((id: string) => this.defaultCacheKey(id));
+        this.customCacheKey = !!opts.cacheKeyUsing;
         this.transform = opts.transform ?? ((element: T) => element as unknown as TResult);
+        this.maxBatchSize = opts.maxBatchSize;
+        this.limit = createLimiter(opts.maxConcurrency);
+        this.keySerializer = opts.serializeKeyUsing ?? defaultKeySerializer;
+        this.ttl = opts.ttl;
+        this.cacheMissing = opts.cacheMissing ?? false;
+        this.missingTtl = opts.missingTtl ?? opts.ttl;
+        this.sharedKeys = opts.sharedKeys ?? false;
+        this.tagsOf = opts.tagsOf;
+        this.invalidation = opts.invalidation;
+        this.instanceId = randomId();
+        this.unsubscribe = this.invalidation?.subscribe((message) => this.onInvalidation(message));
+    }
+
+    async prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void> {
+        const store = session?.storeOf<TResult | null>(this);
+        const idsToPrepare = store ? ids.filter((id) => !store.has(projectedKey(this.serializeKey(id), fields))) : ids;
+        if (idsToPrepare.length === 0) {
+            return;
+        }
+        const cachedValues = await this.getCachedBatch(idsToPrepare.map((id) => this.cacheKeyOf(id)));
+        const cachedEntities = await this.readCachedEntities(cachedValues, fields);
+        const missingIds = idsToPrepare.filter((_id, index) => cachedEntities[index] === undefined);
+        if (missingIds.length < idsToPrepare.length) {
+            session?.emit("cacheHit", { source: this.name, ids: idsToPrepare.length - missingIds.length });
+        }
+        if (missingIds.length > 0) {
+            session?.emit("cacheMiss", { source: this.name, ids: missingIds.length });
+        }
+        if (store) {
+            idsToPrepare.forEach((id, index) => store.set(projectedKey(this.serializeKey(id), fields), cachedEntities[index] ?? null));
+        }
+        if (missingIds.length === 0) {
+            return;
+        }
+        const fieldsToLookup = lookupFields(fields, this.lookupIdGetter);
+        // The invalidations applied until the entities are cached: the entities they concern may have been looked up before the change
+        const invalidations: Invalidation[] = [];
+        this.lookupsInFlight.add(invalidations);
+        try {
+            const data = await lookupInChunks(missingIds, this.lookupFunc, {
+                maxBatchSize: this.maxBatchSize,
+                limit: this.limit,
+                schedule: session && ((task) => session.schedule(task)),
+                fields: fieldsToLookup,
+            });
+            const entities = await Promise.all(data.map((d) => this.transform(d)));
+            const tags = this.tagsOf ? data.map((d) => this.tagsOf!(d)) : [];
+            const tagVersions = Object.fromEntries(await this.getTagVersions(_.uniq(_.flatten(tags)), true));
+            if (store) {
+                data.forEach((d, index) => store.set(projectedKey(this.getElementId(d), fields), entities[index]));
+            }
+            const batch: { key: string; value: TResult; ttl?: number }[] = [];
+            data.forEach((d, index) => {
+                if (!isInvalidated(invalidations, this.getElementId(d), tags[index])) {
+                    batch.push({
+                        key: this.cacheKeyUsing(this.getElementId(d)),
+                        value: toCachedValue(entities[index], fieldsToLookup, tags[index] && _.pick(tagVersions, tags[index])),
+                        ...(this.ttl !== undefined && { ttl: this.ttl }),
+                    });
+                }
+            });
+            if (this.cacheMissing) {
+                const foundIds = new Set(data.map((d) => this.getElementId(d)));
+                for (const id of missingIds) {
+                    if (!foundIds.has(this.serializeKey(id)) && !isInvalidated(invalidations, this.serializeKey(id))) {
+                        batch.push({
+                            key: this.cacheKeyOf(id),
+                            value: MISSING_ENTITY as unknown as TResult,
+                            ...(this.missingTtl !== undefined && { ttl: this.missingTtl }),
+                        });
+                    }
+                }
+            }
+            if (batch.length > 0) {
+                await this.cache.setBatch(batch);
+            }
+        } finally {
+            this.lookupsInFlight.delete(invalidations);
+        }
+    }
+
+    async get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<TResult | null> {
+        if (session) {
+            return session.storeOf<TResult | null>(this).get(projectedKey(this.serializeKey(id), fields)) ?? null;
+        }
+        const entityFromCache = await this.cache.get(this.cacheKeyOf(id));
+        const [entity] = await this.readCachedEntities([entityFromCache], fields);
+        return entity ?? null;
+    }
+
+    /**
+     * Invalidate the cached entities, here and in the other instances of the source.
+     * @param ids The IDs of the entities
+     */
+    async invalidate(ids: EntityKey[]): Promise<void> {
+        await this.broadcast({ ids: ids.map((id) => this.serializeKey(id)) });
+    }
+
+    /**
+     * Invalidate all the cached entities with one of the tags, here and in the other instances of the source.
+     * @param tags The tags given by `tagsOf`
+     */
+    async invalidateTags(tags: string[]): Promise<void> {
+        await this.broadcast({ tags });
+    }
+
+    /**
+     * Stop listening to the invalidations of the other instances.
+     */
+    close(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+    }
+
+    serializeKey(id: EntityKey): string {
+        return this.keySerializer(id);
+    }
+
+    idOf(entity: TResult): EntityKey | undefined {
+        return readEntityId(entity as unknown as T, this.lookupIdGetter);
+    }
+
+    private cacheKeyOf(id: EntityKey): string {
+        return this.cacheKeyUsing(this.serializeKey(id));
+    }
+
+    private async getCachedBatch(keys: string[]): Promise<(TResult | null)[]> {
+        if (this.cache.getBatch) {
+            return this.cache.getBatch(keys);
+        }
+        return Promise.all(keys.map((key) => this.cache.get(key)));
+    }
+
+    /**
+     * Invalidate all the entities of this source, here and in the other instances of the source.
+     * The cache must implement `invalidatePrefix`, and the default cache key function must be used.
+     */
+    async invalidateAll(): Promise<void> {
+        if (!this.cache.invalidatePrefix || this.customCacheKey) {
+            throw new Error(`Entity source ${this.name} cannot invalidate all of its entities: the cache does not support prefix invalidation or a custom cache key function is used.`);
+        }
+        await this.broadcast({ all: true });
+    }
+
+    /**
+     * Apply the invalidation to the cache, then publish it to the other instances.
+     */
+    private async broadcast(invalidation: Invalidation): Promise<void> {
+        await this.applyInvalidation(invalidation);
+        await this.invalidation?.publish({ source: this.name, origin: this.instanceId, ...invalidation });
     }
 
-    async prepare(ids: string[]): Promise<void> {
-        const data = await this.lookupFunc(ids);
-        await this.cache.setBatch(
-            data.map((d) => ({
-                key: this.cacheKeyUsing(this.getElementId(d)),
-                value: this.transform(d),
-            }))
-        );
+    private onInvalidation(message: InvalidationMessage) {
+        if (message.source !== this.name || message.origin === this.instanceId) {
+            return;
+        }
+        this.applyInvalidation(message).catch(() => {
+            // Nobody awaits the messages of the other instances, the entries expire with their TTL anyway
+        });
     }
 
-    async get(id: string): Promise<TResult | null> {
-        const entityFromCache = await this.cache.get(this.cacheKeyUsing(id));
-        return entityFromCache;
+    private async applyInvalidation(invalidation: Invalidation): Promise<void> {
+        this.lookupsInFlight.forEach((invalidations) => invalidations.push(invalidation));
+        const keys = [
+            ...(invalidation.ids ?? []).map((id) => this.cacheKeyUsing(id)),
+            ...(invalidation.tags ?? []).map((tag) => this.tagKeyOf(tag)),
+        ];
+        if (keys.length > 0) {
+            await this.cache.invalidate(keys);
+        }
+        if (invalidation.all && this.cache.invalidatePrefix && !this.customCacheKey) {
+            await this.cache.invalidatePrefix(this.defaultCacheKey(""));
+        }
+    }
+
+    /**
+     * Read the values of the cache, checking the versions of the tags stored with the entities.
+     */
+    private async readCachedEntities(values: (TResult | null)[], fields?: string[]): Promise<(TResult | null | undefined)[]> {
+        const tags = _.uniq(_.flatMap(values, (value) => isCachedEntry(value) && value.__aggregatorTags__ ? Object.keys(value.__aggregatorTags__) : []));
+        const tagVersions = await this.getTagVersions(tags, false);
+        return values.map((value) => readCachedEntity(value, fields, tagVersions));
+    }
+
+    /**
+     * Get the current versions of the tags from the cache.
+     * @param create Whether to store new versions for the tags that have none, i.e. that were invalidated
+     */
+    private async getTagVersions(tags: string[], create: boolean): Promise<Map<string, string>> {
+        const versions = new Map<string, string>();
+        if (tags.length === 0) {
+            return versions;
+        }
+        const values = await this.getCachedBatch(tags.map((tag) => this.tagKeyOf(tag))) as unknown as (string | null)[];
+        const newVersions: { key: string; value: TResult }[] = [];
+        tags.forEach((tag, index) => {
+            const version = values[index];
+            if (_.isString(version)) {
+                versions.set(tag, version);
+            } else if (create) {
+                const newVersion = randomId();
+                versions.set(tag, newVersion);
+                newVersions.push({ key: this.tagKeyOf(tag), value: newVersion as unknown as TResult });
+            }
+        });
+        if (newVersions.length > 0) {
+            await this.cache.setBatch(newVersions);
+        }
+        return versions;
     }
 
-    async invalidate(ids: string[]): Promise<void> {
-        await this.cache.invalidate(ids.map((id) => this.cacheKeyUsing(id)));
+    /**
+     * The versions of the tags are stored next to the entities, under a key that no serialized ID is expected to take.
+     */
+    private tagKeyOf(tag: string): string {
+        return this.cacheKeyUsing(`#tag::${tag}`);
     }
 
     private defaultCacheKey(id: string): string {
+        if (this.sharedKeys) {
+            return `$${this.cacheKeyPrefix}::${this.name}::${id}`;
+        }
         return `$${this.cacheKeyPrefix}::${this.name}::${this.uniqueId}::${id}`;
     }
 
     private getElementId(element: T): string {
         if (typeof this.lookupIdGetter === "string") {
-            return `${element[this.lookupIdGetter]}`;
+            return this.serializeKey(element[this.lookupIdGetter] as EntityKey);
         } else {
-            return this.lookupIdGetter(element);
+            return this.serializeKey(this.lookupIdGetter(element));
         }
     }
 }
+
+type Invalidation = Pick<InvalidationMessage, "ids" | "tags" | "all">;
+
+/**
+ * Whether one of the invalidations concerns the entity, given its serialized ID and its tags.
+ */
+function isInvalidated(invalidations: Invalidation[], id: string, tags: string[] = []): boolean {
+    return invalidations.some((invalidation) =>
+        !!invalidation.all || !!invalidation.ids?.includes(id) || tags.some((tag) => invalidation.tags?.includes(tag)));
+}
+
+function isMissingEntity(value: any): boolean {
+    return !!value && value.__aggregatorMissingEntity__ === true;
+}
+
+function isCachedEntry(value: any): value is CachedEntry<any> {
+    return !!value && (_.isArray(value.__aggregatorProjection__) || _.isPlainObject(value.__aggregatorTags__));
+}
+
+/**
+ * The value to store in the cache for an entity, wrapped if it was looked up with some fields only, or if it has tags.
+ */
+function toCachedValue<T>(entity: T, fields?: string[], tagVersions?: Record<string, string>): T {
+    const tagged = !!tagVersions && !_.isEmpty(tagVersions);
+    if (!fields && !tagged) {
+        return entity;
+    }
+    const entry: CachedEntry<T> = {
+        entity,
+        ...(fields && { __aggregatorProjection__: fields }),
+        ...(tagged && { __aggregatorTags__: tagVersions }),
+    };
+    return entry as unknown as T;
+}
+
+/**
+ * Read a value of the cache for an aggregation needing the given fields (or the whole entity).
+ * 
+ * @returns The entity, null for a missing entity,
+ *  or undefined if the value is absent, does not hold all the needed fields or is stale, so that the entity must be looked up.
+ */
+function readCachedEntity<T>(value: T | null | undefined, fields: string[] | undefined, tagVersions: Map<string, string>): T | null | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    if (isMissingEntity(value)) {
+        return null;
+    }
+    if (isCachedEntry(value)) {
+        const stale = _.some(value.__aggregatorTags__, (version, tag) => tagVersions.get(tag) !== version);
+        const projection = value.__aggregatorProjection__;
+        const holdsAllFields = !projection || (!!fields && _.difference(fields, projection).length === 0);
+        return holdsAllFields && !stale ? value.entity : undefined;
+    }
+    return value;
+}
+
+function randomId(): string {
+    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+}
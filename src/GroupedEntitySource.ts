@@ -0,0 +1,123 @@
+
+import { AggregationSession } from "./AggregationSession";
+import { EntitySource, EntityLookupFunction, EntityIdGetter, EntityKey, KeySerializer } from "./types";
+import { createLimiter, defaultKeySerializer, Limiter, lookupFields, lookupInChunks, projectedKey, readEntityId } from "./utils";
+
+export type GroupedEntitySourceOpts<T = any, TResult = T> = {
+    /**
+     * The function get the entities using the IDs of their parents. Usually this is a query to the database
+     * filtering by a foreign key, or a call to a service.
+     */
+    lookupUsing: EntityLookupFunction<T>;
+
+    /**
+     * The field name for the ID of the parent (the foreign key).
+     * Or a function get the ID of the parent from the entity.
+     */
+    groupBy: EntityIdGetter<T>;
+
+    /**
+     * Transform the entity before storing it. It may return a promise.
+     * The context is the context of the session, or empty without a session.
+     */
+    transform?: (data: T, context: Record<string, any>) => TResult | Promise<TResult>;
+
+    /**
+     * The maximum number of IDs given to the lookup function at once.
+     * Larger batches are split into chunks, and the results are merged. Defaults to no limit.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * The maximum number of chunks looked up at the same time by this source. Defaults to no limit.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * The function turning the IDs into strings. Two IDs are considered equal when their serializations are equal.
+     * Defaults to the string conversion, and JSON with sorted properties for composite keys.
+     */
+    serializeKeyUsing?: KeySerializer;
+};
+
+/**
+ * An implementation of the EntitySource interface for one-to-many relations.
+ * The IDs given to this source are the IDs of the parents, and each parent gets the array
+ * of the entities referencing it by the foreign key.
+ * 
+ * Like the SimpleEntitySource, the entities are held by the session if given, otherwise in memory.
+ */
+export class GroupedEntitySource<T, TResult = T> implements EntitySource<T, TResult[]> {
+    // The lookups are run through `session.schedule`
+    readonly schedulesLookups = true;
+    private name: string;
+    private lookupFn: EntityLookupFunction<T>;
+    private groupIdGetter: EntityIdGetter<T>;
+    private memory = new Map<string, TResult[]>();
+    private transform: (element: T, context: Record<string, any>) => TResult | Promise<TResult>;
+    private maxBatchSize?: number;
+    private limit: Limiter;
+    private keySerializer: KeySerializer;
+
+    constructor(name: string, opts: GroupedEntitySourceOpts<T, TResult>) {
+        this.name = name;
+        this.lookupFn = opts.lookupUsing;
+        this.groupIdGetter = opts.groupBy;
+        this.transform = opts.transform ?? ((element: T) => element as unknown as TResult);
+        this.maxBatchSize = opts.maxBatchSize;
+        this.limit = createLimiter(opts.maxConcurrency);
+        this.keySerializer = opts.serializeKeyUsing ?? defaultKeySerializer;
+    }
+
+    async prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void> {
+        const memory = this.memoryOf(session);
+        const idsToLookup = session ? ids.filter((id) => !memory.has(projectedKey(this.serializeKey(id), fields))) : ids;
+        if (idsToLookup.length === 0) {
+            return;
+        }
+        const data = await lookupInChunks(idsToLookup, this.lookupFn, {
+            maxBatchSize: this.maxBatchSize,
+            limit: this.limit,
+            schedule: session && ((task) => session.schedule(task)),
+            fields: lookupFields(fields, this.groupIdGetter),
+        });
+        // Parents without any entity get an empty group
+        for (const id of idsToLookup) {
+            memory.set(projectedKey(this.serializeKey(id), fields), []);
+        }
+        const entities = await Promise.all(data.map((element) => this.transform(element, session?.context ?? {})));
+        data.forEach((element, index) => {
+            const groupId = projectedKey(this.getGroupId(element), fields);
+            const group = memory.get(groupId) ?? [];
+            group.push(entities[index]);
+            memory.set(groupId, group);
+        });
+    }
+
+    async get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<TResult[]> {
+        return this.memoryOf(session).get(projectedKey(this.serializeKey(id), fields)) ?? [];
+    }
+
+    serializeKey(id: EntityKey): string {
+        return this.keySerializer(id);
+    }
+
+    /**
+     * The ID of a group is the ID of the parent, read from its first entity.
+     */
+    idOf(group: TResult[]): EntityKey | undefined {
+        return Array.isArray(group) ? readEntityId(group[0] as unknown as T, this.groupIdGetter) : undefined;
+    }
+
+    private memoryOf(session?: AggregationSession): Map<string, TResult[]> {
+        return session ? session.storeOf<TResult[]>(this) : this.memory;
+    }
+
+    private getGroupId(element: T): string {
+        if (typeof this.groupIdGetter === "string") {
+            return this.serializeKey(element[this.groupIdGetter] as EntityKey);
+        } else {
+            return this.serializeKey(this.groupIdGetter(element));
+        }
+    }
+}
@@ -0,0 +1,120 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { Aggregator } from "./Aggregator";
+import { AggregationSession } from "./AggregationSession";
+import { HttpRequestError, SourceLookupError } from "./errors";
+import { HttpEntitySource } from "./HttpEntitySource";
+
+const users = [
+    { id: 'A', name: 'Andy' },
+    { id: 'B', name: 'Hai' },
+    { id: 'C', name: 'Chi' },
+];
+
+type ReceivedRequest = { method: string; url: string; headers: http.IncomingHttpHeaders; body?: any };
+
+describe('HttpEntitySource', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: ReceivedRequest[];
+    // The IDs whose requests fail with a 500
+    let failingIds: string[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let payload = "";
+            req.on("data", (chunk) => payload += chunk);
+            req.on("end", () => {
+                const url = new URL(req.url!, "http://localhost");
+                const body = payload ? JSON.parse(payload) : undefined;
+                requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+                const ids: string[] = body ? body.ids : (url.searchParams.get("ids") ?? "").split(",");
+                if (ids.some((id) => failingIds.includes(id))) {
+                    res.writeHead(500).end();
+                    return;
+                }
+                const found = users.filter((user) => ids.includes(user.id)).reverse();
+                res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(url.pathname === "/wrapped" ? { data: found } : found));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+    beforeEach(() => {
+        requests = [];
+        failingIds = [];
+    });
+
+    test('Happy path: the IDs should be sent in the query string, and the entities matched by their IDs', async () => {
+        const source = new HttpEntitySource("user", { url: `${baseUrl}/users`, entityIdBy: "id" });
+        await source.prepare(['A', 'B', 'X']);
+        expect(requests.map((request) => request.url)).toEqual(['/users?ids=A,B,X']);
+        expect(await source.get('A')).toEqual(users[0]);
+        expect(await source.get('B')).toEqual(users[1]);
+        expect(await source.get('X')).toBeNull();
+    });
+    test('The IDs should be sent in a JSON body, with the selected fields and the parsed response', async () => {
+        const source = new HttpEntitySource("user", {
+            url: `${baseUrl}/wrapped`,
+            sendIdsIn: "body",
+            entityIdBy: "id",
+            parseResponse: (body) => body.data,
+        });
+        await source.prepare(['A', 'C'], undefined, ['name']);
+        expect(requests).toMatchObject([{ method: 'POST', body: { ids: ['A', 'C'], fields: ['id', 'name'] } }]);
+        expect(requests[0].headers['content-type']).toBe('application/json');
+        expect(await source.get('C', undefined, ['name'])).toEqual(users[2]);
+    });
+    test('The IDs should be split into several requests when the URL gets too long', async () => {
+        const url = `${baseUrl}/users`;
+        const source = new HttpEntitySource("user", { url, entityIdBy: "id", maxUrlLength: `${url}?ids=A,B`.length });
+        await source.prepare(['A', 'B', 'C']);
+        expect(requests.map((request) => request.url).sort()).toEqual(['/users?ids=A,B', '/users?ids=C']);
+        expect(await source.get('C')).toEqual(users[2]);
+    });
+    test('The headers should be computed from the context of the aggregation call', async () => {
+        const source = new HttpEntitySource("user", {
+            url: `${baseUrl}/users`,
+            entityIdBy: "id",
+            headers: (context) => ({ Authorization: `Bearer ${context.token}` }),
+        });
+        const aggregator = new Aggregator({ user: source });
+        const result = await aggregator.aggregate({ userId: 'B' }, { "userId": { source: "user", to: { key: "user" } } }, { context: { token: 'secret' } });
+        expect(result).toEqual({ userId: 'B', user: users[1] });
+        expect(requests[0].headers.authorization).toBe('Bearer secret');
+    });
+    test('When a request fails: the entities of the other requests should be kept, and only the failed IDs requested again', async () => {
+        failingIds = ['C'];
+        const source = new HttpEntitySource("user", { url: `${baseUrl}/users`, entityIdBy: "id", maxBatchSize: 2 });
+        const session = new AggregationSession();
+        const preparation = source.prepare(['A', 'B', 'C'], session);
+        await expect(preparation).rejects.toThrow(HttpRequestError);
+        await expect(preparation).rejects.toMatchObject({ status: 500, ids: ['C'] });
+        failingIds = [];
+        await source.prepare(['A', 'B', 'C'], session);
+        expect(requests.map((request) => request.url)).toEqual(['/users?ids=A,B', '/users?ids=C', '/users?ids=C']);
+        expect(await source.get('C', session)).toEqual(users[2]);
+    });
+    test('With the "null" policy for partial failures: the entities of the failed requests should be missing', async () => {
+        failingIds = ['C'];
+        const source = new HttpEntitySource("user", { url: `${baseUrl}/users`, entityIdBy: "id", maxBatchSize: 1, partialFailures: "null" });
+        const aggregator = new Aggregator({ user: source });
+        const result = await aggregator.aggregate([{ userId: 'A' }, { userId: 'C' }], { "userId": { source: "user", to: { key: "user" } } });
+        expect(result).toEqual([{ userId: 'A', user: users[0] }, { userId: 'C', user: null }]);
+    });
+    test('An unreachable endpoint should reject the aggregation with a SourceLookupError', async () => {
+        const source = new HttpEntitySource("user", {
+            url: `${baseUrl}/users`,
+            entityIdBy: "id",
+            fetch: async () => { throw new Error('connection refused'); },
+        });
+        const aggregator = new Aggregator({ user: source });
+        const aggregation = aggregator.aggregate({ userId: 'A' }, { "userId": { source: "user" } });
+        await expect(aggregation).rejects.toThrow(SourceLookupError);
+        await expect(aggregation).rejects.toMatchObject({ cause: expect.any(HttpRequestError) });
+    });
+});
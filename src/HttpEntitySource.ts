@@ -0,0 +1,273 @@
+import _ from "lodash";
+import { AggregationSession } from "./AggregationSession";
+import { HttpRequestError } from "./errors";
+import { EntitySource, EntityIdGetter, EntityKey, KeySerializer } from "./types";
+import { createLimiter, defaultKeySerializer, Limiter, lookupFields, projectedKey, readEntityId } from "./utils";
+
+/**
+ * The part of `fetch` used by the HttpEntitySource, so that any implementation can be given.
+ */
+export type HttpFetch = (url: string, init: { method: string; headers: Record<string, string>; body?: string }) => Promise<{
+    ok: boolean;
+    status: number;
+    json(): Promise<any>;
+}>;
+
+export type HttpEntitySourceOpts<T = any, TResult = T> = {
+    /**
+     * The URL of the batch endpoint, e.g. `https://users.internal/users`.
+     */
+    url: string;
+
+    /**
+     * How the IDs are sent:
+     * - `query`: `GET <url>?ids=a,b,c`, split into several requests when the URL gets longer than `maxUrlLength`,
+     * - `body`: `POST <url>` with the JSON body `{ "ids": ["a", "b", "c"] }`.
+     * Defaults to "query".
+     */
+    sendIdsIn?: "query" | "body";
+
+    /**
+     * The name of the query parameter or of the property of the body holding the IDs. Defaults to "ids".
+     */
+    idsParam?: string;
+
+    /**
+     * The name of the query parameter or of the property of the body holding the selected fields, if any. Defaults to "fields".
+     */
+    fieldsParam?: string;
+
+    /**
+     * They field name for the ID of the entity.
+     * Or a function get the ID of the entity.
+     */
+    entityIdBy: EntityIdGetter<T>;
+
+    /**
+     * Read the entities from the body of the response. Defaults to the body itself, which must be an array.
+     */
+    parseResponse?: (body: any) => T[];
+
+    /**
+     * The headers of the requests, or a function giving them for the context of the aggregation call,
+     *  e.g. `(context) => ({ Authorization: context.token })`.
+     */
+    headers?: Record<string, string> | ((context: Record<string, any>) => Record<string, string> | Promise<Record<string, string>>);
+
+    /**
+     * Transform the entity before storing it. It may return a promise.
+     * The context is the context of the session, or empty without a session.
+     */
+    transform?: (data: T, context: Record<string, any>) => TResult | Promise<TResult>;
+
+    /**
+     * The maximum length of the URLs with the IDs in the query. Defaults to 2048.
+     */
+    maxUrlLength?: number;
+
+    /**
+     * The maximum number of IDs per request. Defaults to no limit.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * The maximum number of requests running at the same time for this source. Defaults to no limit.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * What to do when some of the requests of a preparation fail:
+     * - `throw`: reject the preparation with the HttpRequestError of the first failed request.
+     *   The entities of the other requests are kept, so that a retry within the same session only requests the failed IDs again.
+     * - `null`: consider the entities of the failed requests missing.
+     * Defaults to "throw".
+     */
+    partialFailures?: "throw" | "null";
+
+    /**
+     * The function turning the IDs into strings. Two IDs are considered equal when their serializations are equal.
+     * Defaults to the string conversion, and JSON with sorted properties for composite keys.
+     */
+    serializeKeyUsing?: KeySerializer;
+
+    /**
+     * The implementation of `fetch`. Defaults to the global `fetch`.
+     */
+    fetch?: HttpFetch;
+};
+
+/**
+ * An implementation of the EntitySource interface requesting the entities from the batch endpoint of a service.
+ *
+ * The IDs are sent in the query string or in a JSON body, together with the selected fields, if any.
+ * The entities of the response are matched with the IDs by `entityIdBy`, so the order of the response does not matter.
+ * Given a session, the entities are held by the session, and the headers are computed from its context.
+ * Otherwise, they are kept in the memory of the source, like the SimpleEntitySource.
+ */
+export class HttpEntitySource<T, TResult = T> implements EntitySource<T, TResult> {
+    // The lookups are run through `session.schedule`
+    readonly schedulesLookups = true;
+    private name: string;
+    private url: string;
+    private sendIdsIn: "query" | "body";
+    private idsParam: string;
+    private fieldsParam: string;
+    private lookupIdGetter: EntityIdGetter<T>;
+    private parseResponse: (body: any) => T[];
+    private headers: (context: Record<string, any>) => Record<string, string> | Promise<Record<string, string>>;
+    private transform: (element: T, context: Record<string, any>) => TResult | Promise<TResult>;
+    private maxUrlLength: number;
+    private maxBatchSize: number;
+    private limit: Limiter;
+    private partialFailures: "throw" | "null";
+    private keySerializer: KeySerializer;
+    private fetch: HttpFetch;
+    private memory = new Map<string, TResult | null>();
+
+    constructor(name: string, opts: HttpEntitySourceOpts<T, TResult>) {
+        this.name = name;
+        this.url = opts.url;
+        this.sendIdsIn = opts.sendIdsIn ?? "query";
+        this.idsParam = opts.idsParam ?? "ids";
+        this.fieldsParam = opts.fieldsParam ?? "fields";
+        this.lookupIdGetter = opts.entityIdBy;
+        this.parseResponse = opts.parseResponse ?? ((body) => body);
+        const headers = opts.headers ?? {};
+        this.headers = _.isFunction(headers) ? headers : () => headers;
+        this.transform = opts.transform ?? ((element: T) => element as unknown as TResult);
+        this.maxUrlLength = opts.maxUrlLength ?? 2048;
+        this.maxBatchSize = opts.maxBatchSize ?? Infinity;
+        this.limit = createLimiter(opts.maxConcurrency);
+        this.partialFailures = opts.partialFailures ?? "throw";
+        this.keySerializer = opts.serializeKeyUsing ?? defaultKeySerializer;
+        this.fetch = opts.fetch ?? ((url, init) => fetch(url, init));
+    }
+
+    async prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void> {
+        const memory = this.memoryOf(session);
+        const idsToRequest = session ? ids.filter((id) => !memory.has(projectedKey(this.serializeKey(id), fields))) : ids;
+        if (idsToRequest.length === 0) {
+            return;
+        }
+        const fieldsToRequest = lookupFields(fields, this.lookupIdGetter);
+        const headers = await this.headers(session?.context ?? {});
+        const schedule = (task: () => Promise<T[]>) => session ? session.schedule(task) : task();
+        const chunks = this.chunk(idsToRequest, fieldsToRequest);
+        // Every request is awaited, so that the entities of the successful ones are kept even if others fail
+        const results = await Promise.all(chunks.map((chunk) =>
+            this.limit(() => schedule(() => this.request(chunk, fieldsToRequest, headers)))
+                .then((entities) => ({ entities, error: undefined }), (error) => ({ entities: undefined, error }))
+        ));
+        const entities = await Promise.all(results.map((result) =>
+            Promise.all((result.entities ?? []).map((element) => this.transform(element, session?.context ?? {})))));
+        results.forEach((result, index) => {
+            if (!result.entities) {
+                return;
+            }
+            if (session) {
+                // Remember the missing IDs as well, so that they are not requested again in the session
+                for (const id of chunks[index]) {
+                    memory.set(projectedKey(this.serializeKey(id), fields), null);
+                }
+            }
+            result.entities.forEach((element, position) => {
+                memory.set(projectedKey(this.getElementId(element), fields), entities[index][position]);
+            });
+        });
+        const failure = results.find((result) => !result.entities);
+        if (failure && this.partialFailures === "throw") {
+            throw failure.error;
+        }
+    }
+
+    async get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<TResult | null> {
+        return this.memoryOf(session).get(projectedKey(this.serializeKey(id), fields)) ?? null;
+    }
+
+    serializeKey(id: EntityKey): string {
+        return this.keySerializer(id);
+    }
+
+    idOf(entity: TResult): EntityKey | undefined {
+        return readEntityId(entity as unknown as T, this.lookupIdGetter);
+    }
+
+    /**
+     * Send one batch request, and read the entities from its response.
+     * @throws {HttpRequestError} If the request fails, or its response cannot be read.
+     */
+    private async request(ids: EntityKey[], fields: string[] | undefined, headers: Record<string, string>): Promise<T[]> {
+        const serializedIds = ids.map((id) => this.serializeKey(id));
+        let response: Awaited<ReturnType<HttpFetch>>;
+        try {
+            response = this.sendIdsIn === "body"
+                ? await this.fetch(this.url, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", ...headers },
+                    body: JSON.stringify({ [this.idsParam]: ids, ...(fields && { [this.fieldsParam]: fields }) }),
+                })
+                : await this.fetch(this.queryUrl(serializedIds, fields), { method: "GET", headers });
+        } catch (error) {
+            throw new HttpRequestError(this.name, serializedIds, undefined, error);
+        }
+        if (!response.ok) {
+            throw new HttpRequestError(this.name, serializedIds, response.status);
+        }
+        try {
+            const entities = this.parseResponse(await response.json());
+            if (!_.isArray(entities)) {
+                throw new Error("the response does not hold an array of entities");
+            }
+            return entities;
+        } catch (error) {
+            throw new HttpRequestError(this.name, serializedIds, undefined, error);
+        }
+    }
+
+    /**
+     * Split the IDs into the batches of the requests.
+     * In the query string, a batch is closed as soon as the next ID would make the URL too long.
+     */
+    private chunk(ids: EntityKey[], fields?: string[]): EntityKey[][] {
+        if (this.sendIdsIn === "body") {
+            return _.chunk(ids, Math.min(this.maxBatchSize, ids.length));
+        }
+        const baseLength = this.queryUrl([], fields).length;
+        const chunks: EntityKey[][] = [];
+        let chunk: EntityKey[] = [];
+        let length = baseLength;
+        for (const id of ids) {
+            const idLength = encodeURIComponent(this.serializeKey(id)).length;
+            // The IDs are separated by commas
+            if (chunk.length > 0 && (length + 1 + idLength > this.maxUrlLength || chunk.length >= this.maxBatchSize)) {
+                chunks.push(chunk);
+                chunk = [];
+                length = baseLength;
+            }
+            length += (chunk.length > 0 ? 1 : 0) + idLength;
+            chunk.push(id);
+        }
+        chunks.push(chunk);
+        return chunks;
+    }
+
+    private queryUrl(ids: string[], fields?: string[]): string {
+        const params = [`${this.idsParam}=${ids.map(encodeURIComponent).join(",")}`];
+        if (fields) {
+            params.push(`${this.fieldsParam}=${fields.map(encodeURIComponent).join(",")}`);
+        }
+        return `${this.url}${this.url.includes("?") ? "&" : "?"}${params.join("&")}`;
+    }
+
+    private memoryOf(session?: AggregationSession): Map<string, TResult | null> {
+        return session ? session.storeOf<TResult | null>(this) : this.memory;
+    }
+
+    private getElementId(element: T): string {
+        if (typeof this.lookupIdGetter === "string") {
+            return this.serializeKey(element[this.lookupIdGetter] as EntityKey);
+        } else {
+            return this.serializeKey(this.lookupIdGetter(element));
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { CachedEntitySource } from "./CachedEntitySource";
+import { InMemoryEntityCache } from "./InMemoryEntityCache";
+
+describe('InMemoryEntityCache', () => {
+    let cache: InMemoryEntityCache;
+    beforeEach(() => {
+        cache = new InMemoryEntityCache({ maxEntries: 3 });
+    });
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+    test('Happy path: the entries should be returned until they are invalidated', async () => {
+        await cache.setBatch([{ key: 'a', value: 1 }, { key: 'b', value: 2 }]);
+        expect(await cache.get('a')).toBe(1);
+        expect(await cache.getBatch(['b', 'c'])).toEqual([2, null]);
+        await cache.invalidate(['a']);
+        expect(await cache.get('a')).toBeNull();
+    });
+    test('When the maximum is reached: the least recently used entries should be evicted', async () => {
+        await cache.setBatch([{ key: 'a', value: 1 }, { key: 'b', value: 2 }, { key: 'c', value: 3 }]);
+        await cache.get('a');
+        await cache.setBatch([{ key: 'd', value: 4 }]);
+        expect(await cache.getBatch(['a', 'b', 'c', 'd'])).toEqual([1, null, 3, 4]);
+        expect(cache.getStats().evictions).toBe(1);
+        expect(cache.getStats().size).toBe(3);
+    });
+    test('Entries should expire after their TTL, falling back to the default TTL', async () => {
+        jest.useFakeTimers();
+        cache = new InMemoryEntityCache({ ttl: 10 });
+        await cache.setBatch([{ key: 'a', value: 1, ttl: 1 }, { key: 'b', value: 2 }]);
+        jest.advanceTimersByTime(1000);
+        expect(await cache.get('a')).toBeNull();
+        expect(await cache.get('b')).toBe(2);
+        jest.advanceTimersByTime(9000);
+        expect(await cache.get('b')).toBeNull();
+    });
+    test('Prefix invalidation should only remove the matching entries', async () => {
+        await cache.setBatch([
+            { key: '$aggcache::user::1::A', value: 1 },
+            { key: '$aggcache::user::1::B', value: 2 },
+            { key: '$aggcache::todo::1::A', value: 3 },
+        ]);
+        await cache.invalidatePrefix('$aggcache::user::');
+        expect(await cache.getBatch(['$aggcache::user::1::A', '$aggcache::user::1::B', '$aggcache::todo::1::A'])).toEqual([null, null, 3]);
+    });
+    test('Hits and misses should be counted', async () => {
+        await cache.setBatch([{ key: 'a', value: 1 }]);
+        await cache.getBatch(['a', 'a', 'b']);
+        expect(cache.getStats()).toEqual({ hits: 2, misses: 1, evictions: 0, size: 1 });
+        cache.resetStats();
+        expect(cache.getStats().hits).toBe(0);
+    });
+    test('CachedEntitySource should be able to invalidate all of its entities', async () => {
+        const users = [{ id: 'A' }, { id: 'B' }];
+        const lookupUsing = jest.fn((ids: string[]) => users.filter(user => ids.includes(user.id)));
+        const source = new CachedEntitySource("user", { cache, lookupUsing, entityIdBy: "id" });
+        await source.prepare(['A', 'B']);
+        await source.invalidateAll();
+        expect(cache.getStats().size).toBe(0);
+        await source.prepare(['A', 'B']);
+        expect(lookupUsing).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,128 @@
+import { EntityCache } from "./CachedEntitySource";
+
+export type InMemoryEntityCacheOpts = {
+    /**
+     * The maximum number of entries. When it is reached, the least recently used entries are evicted.
+     * Defaults to no limit.
+     */
+    maxEntries?: number;
+
+    /**
+     * The time to live in seconds of the entries set without one. Defaults to no expiration.
+     */
+    ttl?: number;
+};
+
+export type InMemoryEntityCacheStats = {
+    hits: number;
+    misses: number;
+    evictions: number;
+    size: number;
+};
+
+type CacheEntry<T> = { value: T; expiresAt?: number };
+
+/**
+ * An implementation of the EntityCache interface that keeps the entries in memory,
+ * with LRU eviction and per-entry TTL.
+ * 
+ * It is meant for tests and single-process services. The entries are not shared between processes.
+ */
+export class InMemoryEntityCache<T = any> implements EntityCache<T> {
+    // A Map iterates in insertion order, so the first entry is always the least recently used one
+    private entries = new Map<string, CacheEntry<T>>();
+    private maxEntries: number;
+    private ttl?: number;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(opts: InMemoryEntityCacheOpts = {}) {
+        this.maxEntries = opts.maxEntries ?? Infinity;
+        this.ttl = opts.ttl;
+    }
+
+    async get(key: string): Promise<T | null> {
+        return this.read(key);
+    }
+
+    async getBatch(keys: string[]): Promise<(T | null)[]> {
+        return keys.map((key) => this.read(key));
+    }
+
+    async setBatch(batch: { key: string; value: T; ttl?: number }[]): Promise<void> {
+        for (const { key, value, ttl } of batch) {
+            const entryTtl = ttl ?? this.ttl;
+            this.entries.delete(key);
+            this.entries.set(key, {
+                value,
+                expiresAt: entryTtl !== undefined ? Date.now() + entryTtl * 1000 : undefined,
+            });
+        }
+        while (this.entries.size > this.maxEntries) {
+            const leastRecentlyUsedKey = this.entries.keys().next().value;
+            this.entries.delete(leastRecentlyUsedKey);
+            this.evictions++;
+        }
+    }
+
+    async invalidate(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            this.entries.delete(key);
+        }
+    }
+
+    /**
+     * Invalidate all the entries whose key starts with the given prefix.
+     * With the default key layout of CachedEntitySource (`$<prefix>::<name>::<id>::<entityId>`),
+     *  `$aggcache::user::` invalidates every cached user.
+     * @param prefix The prefix of the keys to invalidate
+     */
+    async invalidatePrefix(prefix: string): Promise<void> {
+        for (const key of Array.from(this.entries.keys())) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Remove all the entries. The statistics are kept.
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    getStats(): InMemoryEntityCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            size: this.entries.size,
+        };
+    }
+
+    resetStats(): void {
+        this.hits = 0;
+        this.misses = 0;
+        this.evictions = 0;
+    }
+
+    private read(key: string): T | null {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            this.misses++;
+            return null;
+        }
+        // Move the entry to the end, so that it is the most recently used one
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+}
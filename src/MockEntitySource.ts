@@ -0,0 +1,159 @@
+import { AggregationSession } from "./AggregationSession";
+import { EntitySource, EntityIdGetter, EntityKey, KeySerializer } from "./types";
+import { defaultKeySerializer, delay, projectedKey, readEntityId } from "./utils";
+
+export type MockEntitySourceOpts<T = any> = {
+    /**
+     * The entities the source can find.
+     */
+    entities?: T[];
+
+    /**
+     * They field name for the ID of the entity.
+     * Or a function get the ID of the entity. Defaults to "id".
+     */
+    entityIdBy?: EntityIdGetter<T>;
+
+    /**
+     * The time in milliseconds every preparation takes. Defaults to 0.
+     */
+    latency?: number;
+
+    /**
+     * The IDs of the entities to consider missing, even if they are among the entities.
+     */
+    missing?: EntityKey[];
+
+    /**
+     * Decide whether a preparation fails: return the error to reject with, or undefined to succeed.
+     * @param ids The IDs given to `prepare`
+     * @param call The number of the preparation, starting at 1
+     */
+    fail?: (ids: EntityKey[], call: number) => unknown;
+
+    /**
+     * The function turning the IDs into strings. Two IDs are considered equal when their serializations are equal.
+     * Defaults to the string conversion, and JSON with sorted properties for composite keys.
+     */
+    serializeKeyUsing?: KeySerializer;
+};
+
+/**
+ * A call received by a MockEntitySource.
+ */
+export type MockSourceCall =
+    | { method: "prepare"; ids: EntityKey[]; fields?: string[]; session?: AggregationSession }
+    | { method: "get"; id: EntityKey; fields?: string[]; session?: AggregationSession };
+
+/**
+ * An implementation of the EntitySource interface for tests, serving the given entities.
+ *
+ * Every call to `prepare` and `get` is recorded, so that the tests can check how the aggregator batches the IDs
+ *  (see the assertions of the `testing` entry point). The latency, the failures and the missing IDs can be configured,
+ *  at creation or later with `configure` and `failNext`.
+ * Unlike the SimpleEntitySource, the IDs already prepared in a session are prepared again, so that every request of the aggregator is visible.
+ */
+export class MockEntitySource<T = any> implements EntitySource<T> {
+    readonly name: string;
+    private opts: MockEntitySourceOpts<T>;
+    private recorded: MockSourceCall[] = [];
+    private preparations = 0;
+    private failures: unknown[] = [];
+    private memory = new Map<string, T | null>();
+
+    constructor(name: string, opts: MockEntitySourceOpts<T> = {}) {
+        this.name = name;
+        this.opts = opts;
+    }
+
+    /**
+     * All the calls received, in order.
+     */
+    get calls(): MockSourceCall[] {
+        return [...this.recorded];
+    }
+
+    /**
+     * The batches of IDs given to `prepare`, in order.
+     */
+    get batches(): EntityKey[][] {
+        return this.recorded.flatMap((call) => call.method === "prepare" ? [call.ids] : []);
+    }
+
+    /**
+     * The IDs given to `get`, in order.
+     */
+    get gets(): EntityKey[] {
+        return this.recorded.flatMap((call) => call.method === "get" ? [call.id] : []);
+    }
+
+    /**
+     * Change the options of the source, e.g. to make some IDs missing in the middle of a test.
+     */
+    configure(opts: Partial<MockEntitySourceOpts<T>>): this {
+        this.opts = { ...this.opts, ...opts };
+        return this;
+    }
+
+    /**
+     * Make the next preparations fail, before the option `fail` is consulted.
+     * @param times The number of failing preparations
+     * @param error The error to reject with
+     */
+    failNext(times: number = 1, error: unknown = new Error(`The mock source ${this.name} failed.`)): this {
+        for (let i = 0; i < times; i++) {
+            this.failures.push(error);
+        }
+        return this;
+    }
+
+    /**
+     * Forget the recorded calls, the prepared entities and the planned failures.
+     */
+    reset(): this {
+        this.recorded = [];
+        this.preparations = 0;
+        this.failures = [];
+        this.memory.clear();
+        return this;
+    }
+
+    async prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void> {
+        this.recorded.push({ method: "prepare", ids: [...ids], ...(fields && { fields }), ...(session && { session }) });
+        const call = ++this.preparations;
+        if (this.opts.latency) {
+            await delay(this.opts.latency);
+        }
+        const error = this.failures.length > 0 ? this.failures.shift() : this.opts.fail?.(ids, call);
+        if (error !== undefined) {
+            throw error;
+        }
+        const missing = new Set((this.opts.missing ?? []).map((id) => this.serializeKey(id)));
+        const entities = new Map<string, T>();
+        for (const entity of this.opts.entities ?? []) {
+            entities.set(this.serializeKey(this.idOf(entity)!), entity);
+        }
+        const memory = this.memoryOf(session);
+        for (const id of ids) {
+            const key = this.serializeKey(id);
+            memory.set(projectedKey(key, fields), missing.has(key) ? null : entities.get(key) ?? null);
+        }
+    }
+
+    async get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<T | null> {
+        this.recorded.push({ method: "get", id, ...(fields && { fields }), ...(session && { session }) });
+        return this.memoryOf(session).get(projectedKey(this.serializeKey(id), fields)) ?? null;
+    }
+
+    serializeKey(id: EntityKey): string {
+        return (this.opts.serializeKeyUsing ?? defaultKeySerializer)(id);
+    }
+
+    idOf(entity: T): EntityKey | undefined {
+        return readEntityId(entity, this.opts.entityIdBy ?? ("id" as EntityIdGetter<T>));
+    }
+
+    private memoryOf(session?: AggregationSession): Map<string, T | null> {
+        return session ? session.storeOf<T | null>(this) : this.memory;
+    }
+}
@@ -1,5 +1,7 @@
 
-import { EntitySource, EntityLookupFunction, EntityIdGetter as EntityIdGetter } from "./types";
+import { AggregationSession } from "./AggregationSession";
+import { EntitySource, EntityLookupFunction, EntityIdGetter as EntityIdGetter, EntityKey, KeySerializer } from "./types";
+import { createLimiter, defaultKeySerializer, Limiter, lookupFields, lookupInChunks, projectedKey, readEntityId } from "./utils";
 
 export type SimpleEntitySourceOpts<T = any, TResult = T> = {
     /**
@@ -14,50 +16,109 @@ export type SimpleEntitySourceOpts<T = any, TResult = T> = {
     entityIdBy: EntityIdGetter<T>;
 
     /**
-     * Transform the entity before storing it in the cache.
+     * Transform the entity before storing it. It may return a promise.
+     * The context is the context of the session, or empty without a session.
      */
-    transform?: (data: T) => TResult;
+    transform?: (data: T, context: Record<string, any>) => TResult | Promise<TResult>;
+
+    /**
+     * The maximum number of IDs given to the lookup function at once.
+     * Larger batches are split into chunks, and the results are merged. Defaults to no limit.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * The maximum number of chunks looked up at the same time by this source. Defaults to no limit.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * The function turning the IDs into strings. Two IDs are considered equal when their serializations are equal.
+     * Defaults to the string conversion, and JSON with sorted properties for composite keys.
+     */
+    serializeKeyUsing?: KeySerializer;
 };
 
 /**
  * This is a dead simple implementation of the EntitySource interface that holds
  * the entities in memory.
  * 
+ * Given a session, the entities are held by the session, and the IDs already looked up in it are skipped.
+ * Otherwise, they are kept in the memory of the source forever.
+ * The entities looked up with a projection (only some fields) are kept apart from the whole entities.
+ * 
  * This implementation is not suitable for production use. It is meant to be used
  * to provide a starting point for your own implementation, or for testing.
  */
 export class SimpleEntitySource<T, TResult = T> implements EntitySource<T, TResult> {
+    // The lookups are run through `session.schedule`
+    readonly schedulesLookups = true;
     private name: string;
     private lookupFn: EntityLookupFunction<T>;
     private lookupIdGetter: EntityIdGetter<T>;
-    private memory = new Map<string, TResult>();
-    private transform: (element: T) => TResult;
+    private memory = new Map<string, TResult | null>();
+    private transform: (element: T, context: Record<string, any>) => TResult | Promise<TResult>;
+    private maxBatchSize?: number;
+    private limit: Limiter;
+    private keySerializer: KeySerializer;
 
     constructor(name: string, opts: SimpleEntitySourceOpts<T, TResult>) {
         this.name = name;
         this.lookupFn = opts.lookupUsing;
         this.lookupIdGetter = opts.entityIdBy;
         this.transform = opts.transform ?? ((element: T) => element as unknown as TResult);
+        this.maxBatchSize = opts.maxBatchSize;
+        this.limit = createLimiter(opts.maxConcurrency);
+        this.keySerializer = opts.serializeKeyUsing ?? defaultKeySerializer;
     }
 
-    async prepare(ids: string[]): Promise<void> {
-        const data = await this.lookupFn(ids);
-        for (const element of data) {
-            const id = this.getElementId(element);
-            this.memory.set(id, this.transform(element));
+    async prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void> {
+        const memory = this.memoryOf(session);
+        const idsToLookup = session ? ids.filter((id) => !memory.has(projectedKey(this.serializeKey(id), fields))) : ids;
+        if (idsToLookup.length === 0) {
+            return;
+        }
+        const data = await lookupInChunks(idsToLookup, this.lookupFn, {
+            maxBatchSize: this.maxBatchSize,
+            limit: this.limit,
+            schedule: session && ((task) => session.schedule(task)),
+            fields: lookupFields(fields, this.lookupIdGetter),
+        });
+        if (session) {
+            // Remember the missing IDs as well, so that they are not looked up again in the session
+            for (const id of idsToLookup) {
+                memory.set(projectedKey(this.serializeKey(id), fields), null);
+            }
         }
+        const entities = await Promise.all(data.map((element) => this.transform(element, session?.context ?? {})));
+        data.forEach((element, index) => {
+            const id = this.getElementId(element);
+            memory.set(projectedKey(id, fields), entities[index]);
+        });
     }
 
-    async get(id: string): Promise<TResult> {
-        const entityFromCache = await this.memory.get(id);
+    async get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<TResult> {
+        const entityFromCache = await this.memoryOf(session).get(projectedKey(this.serializeKey(id), fields));
         return entityFromCache!;
     }
 
+    serializeKey(id: EntityKey): string {
+        return this.keySerializer(id);
+    }
+
+    idOf(entity: TResult): EntityKey | undefined {
+        return readEntityId(entity as unknown as T, this.lookupIdGetter);
+    }
+
+    private memoryOf(session?: AggregationSession): Map<string, TResult | null> {
+        return session ? session.storeOf<TResult | null>(this) : this.memory;
+    }
+
     private getElementId(element: T): string {
         if (typeof this.lookupIdGetter === "string") {
-            return `${element[this.lookupIdGetter]}`;
+            return this.serializeKey(element[this.lookupIdGetter] as EntityKey);
         } else {
-            return this.lookupIdGetter(element);
+            return this.serializeKey(this.lookupIdGetter(element));
         }
     }
 }
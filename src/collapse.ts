@@ -0,0 +1,141 @@
+import _ from "lodash";
+import { CompiledPlan } from "./AggregationPlan";
+import { InvalidConfigurationError } from "./errors";
+import { collectPathsAndValues, joinPath } from "./paths";
+import { AggregationConfiguration, EntityKey, EntitySource, SingleAggregationOpts } from "./types";
+
+/**
+ * Find the entity source of a path for the object holding the ID, or undefined if the object has not been enriched.
+ */
+export type CollapseSourceResolver = (pathOption: SingleAggregationOpts<string>, parent: any, path: string) => EntitySource | undefined;
+
+/**
+ * Remove the entities injected with the configuration of the plan from the data, and restore the removed ID fields.
+ * The paths are processed in the reverse order of the aggregation, and the nested configurations of the merged entities first,
+ *  since their entities are held by the object the entity is merged into.
+ *
+ * @param data The aggregated data, modified in place
+ * @param plan The compiled configuration used for the aggregation
+ * @param sourceOf Find the entity source reading the IDs of the entities
+ * @throws {InvalidConfigurationError} If the fields of a merged entity cannot be told apart from the fields of the object.
+ */
+export function collapseData(data: any, plan: CompiledPlan, sourceOf: CollapseSourceResolver): void {
+    // A nested configuration may refer to one of its parents, so the objects are only collapsed once per configuration
+    const visited = new WeakMap<object, Set<AggregationConfiguration<string>>>();
+    const collapse = (target: any, config: AggregationConfiguration<string>, base: string) => {
+        if (!_.isObject(target)) {
+            return;
+        }
+        const configs = visited.get(target) ?? new Set();
+        if (configs.has(config)) {
+            return;
+        }
+        configs.add(config);
+        visited.set(target, configs);
+        for (const { path, segments, options } of [...plan.configs.get(config)!.paths].reverse()) {
+            const idKey = (segments[segments.length - 1] as { key: string }).key;
+            for (const descriptor of collectPathsAndValues(target, segments)) {
+                const parent = descriptor.parentPath.length > 0 ? _.get(target, descriptor.parentPath) : target;
+                if (descriptor.objectAbsent || !_.isObject(parent) || (options.when && !options.when(parent))) {
+                    continue;
+                }
+                const source = sourceOf(options, parent, joinPath(base, descriptor.path));
+                if (!source) {
+                    continue;
+                }
+                if (options.to) {
+                    collapseInjected(parent, idKey, options, source);
+                } else {
+                    if (options.aggregate) {
+                        collapse(parent, options.aggregate, joinPath(base, descriptor.parentPath));
+                    }
+                    collapseMerged(parent, idKey, options, source, joinPath(base, descriptor.path));
+                }
+            }
+        }
+    };
+    collapse(data, plan.root, "");
+}
+
+/**
+ * Remove the entity put at the target key, and restore its ID if the ID field has been removed.
+ */
+function collapseInjected(parent: any, idKey: string, options: SingleAggregationOpts<string>, source: EntitySource) {
+    const injected = _.get(parent, options.to!.key);
+    _.unset(parent, options.to!.key);
+    restoreId(parent, idKey, options, idOfInjected(injected, source));
+}
+
+/**
+ * Replace the array of entities by their IDs, or remove the fields of the entity merged into the object.
+ */
+function collapseMerged(parent: any, idKey: string, options: SingleAggregationOpts<string>, source: EntitySource, path: string) {
+    const value = parent[idKey];
+    if (_.isArray(value)) {
+        // IDs are kept as they are, e.g. when the client sent the IDs back
+        parent[idKey] = value.map((entity) => _.isObject(entity) ? source.idOf?.(entity) ?? null : entity);
+        return;
+    }
+    const fields = mergedFields(parent, options, path).filter(([key]) => _.has(parent, key));
+    const entity = _.fromPairs(fields.map(([key, field]) => [field, parent[key]]));
+    const idFields = options.compositeKey ? _.values(options.compositeKey) : [idKey];
+    for (const [key] of fields) {
+        if (!idFields.includes(key)) {
+            delete parent[key];
+        }
+    }
+    if (fields.length > 0) {
+        restoreId(parent, idKey, options, source.idOf?.(entity));
+    }
+}
+
+/**
+ * The keys of the object written by the merge, with the fields of the entity they hold.
+ */
+function mergedFields(parent: any, options: SingleAggregationOpts<string>, path: string): [string, string][] {
+    const { merge, select } = options;
+    if (_.isPlainObject(merge)) {
+        const { prefix } = merge as { prefix: string };
+        return Object.keys(parent).filter((key) => key.startsWith(prefix)).map((key) => [key, key.substring(prefix.length)]);
+    }
+    if (select && !_.isFunction(merge) && merge !== "preserve") {
+        return select.map((field) => [field, field]);
+    }
+    throw new InvalidConfigurationError(
+        `The entities merged by the path "${path}" cannot be collapsed: their fields are only known with the option "select" or a prefix, and without "preserve" or a custom merger.`,
+        [path], _.isString(options.source) ? options.source : undefined);
+}
+
+/**
+ * The ID of an injected entity, or the IDs of an array of entities.
+ * A group of a GroupedEntitySource has the ID of its parent.
+ */
+function idOfInjected(injected: any, source: EntitySource): EntityKey | EntityKey[] | undefined {
+    if (_.isNil(injected) || !source.idOf) {
+        return undefined;
+    }
+    const id = source.idOf(injected);
+    if (id !== undefined || !_.isArray(injected) || injected.length === 0) {
+        return id;
+    }
+    // The missing entities were injected as null, their IDs cannot be restored
+    return injected.map((entity) => _.isNil(entity) ? null : source.idOf!(entity) ?? null) as EntityKey[];
+}
+
+/**
+ * Put the ID back into the fields that do not hold it anymore, e.g. after `removeIdKey`.
+ */
+function restoreId(parent: any, idKey: string, options: SingleAggregationOpts<string>, id: EntityKey | EntityKey[] | undefined) {
+    if (id === undefined) {
+        return;
+    }
+    if (options.compositeKey) {
+        for (const [keyName, fieldPath] of Object.entries(options.compositeKey)) {
+            if (_.isPlainObject(id) && !_.has(parent, fieldPath)) {
+                _.set(parent, fieldPath, (id as Record<string, EntityKey>)[keyName]);
+            }
+        }
+    } else if (!_.has(parent, idKey)) {
+        parent[idKey] = id;
+    }
+}
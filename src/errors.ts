@@ -0,0 +1,189 @@
+import _ from "lodash";
+import type { EntityKey } from "./types";
+
+/**
+ * The base class of the errors thrown by the aggregator.
+ */
+export class AggregationError extends Error {
+    /**
+     * The name of the entity source involved in the error, if any.
+     */
+    readonly source?: string;
+
+    /**
+     * The paths in the data of the IDs affected by the error.
+     */
+    readonly paths: string[];
+
+    constructor(message: string, source?: string, paths: string[] = []) {
+        super(message);
+        this.name = "AggregationError";
+        this.source = source;
+        this.paths = paths;
+    }
+}
+
+/**
+ * Thrown when the configuration refers to an entity source that is not registered.
+ */
+export class UnknownSourceError extends AggregationError {
+    constructor(source: string, paths: string[] = []) {
+        super(`Entity source ${source} is not registered.`, source, paths);
+        this.name = "UnknownSourceError";
+    }
+}
+
+/**
+ * Thrown when the configuration is invalid, e.g. two paths write to the same key.
+ */
+export class InvalidConfigurationError extends AggregationError {
+    constructor(message: string, paths: string[], source?: string) {
+        super(message, source, paths);
+        this.name = "InvalidConfigurationError";
+    }
+}
+
+/**
+ * Thrown when a path of the configuration cannot be parsed.
+ */
+export class PathSyntaxError extends AggregationError {
+    /**
+     * The path of the configuration.
+     */
+    readonly path: string;
+
+    /**
+     * The position in the path where the error was found.
+     */
+    readonly position: number;
+
+    constructor(path: string, position: number, reason: string) {
+        super(`Invalid path "${path}" at position ${position}: ${reason}.`, undefined, [path]);
+        this.name = "PathSyntaxError";
+        this.path = path;
+        this.position = position;
+    }
+}
+
+/**
+ * Thrown when two enrichments write the same key of an object, if the aggregator is set to throw on merge conflicts.
+ */
+export class MergeConflictError extends AggregationError {
+    /**
+     * The key written by both enrichments.
+     */
+    readonly key: string;
+
+    constructor(key: string, path: string, paths: string[], source?: string) {
+        super(`The paths "${paths[0]}" and "${paths[1]}" both write the key "${key}" of ${path.length > 0 ? `"${path}"` : "the data"}.`, source, paths);
+        this.name = "MergeConflictError";
+        this.key = key;
+    }
+}
+
+/**
+ * Thrown in strict mode when a referenced entity is missing.
+ */
+export class EntityNotFoundError extends AggregationError {
+    /**
+     * The ID of the missing entity.
+     */
+    readonly id: EntityKey;
+
+    constructor(source: string, id: EntityKey, path: string) {
+        super(`The entity ${formatKey(id)} of ${source} referenced at "${path}" was not found.`, source, [path]);
+        this.name = "EntityNotFoundError";
+        this.id = id;
+    }
+}
+
+/**
+ * Thrown when the nested aggregations go deeper than the maximum depth of the aggregator.
+ */
+export class MaxDepthExceededError extends AggregationError {
+    /**
+     * The maximum depth of the aggregator.
+     */
+    readonly maxDepth: number;
+
+    constructor(maxDepth: number, paths: string[]) {
+        super(`The aggregation exceeds the maximum depth of ${maxDepth} at "${paths[0]}".`, undefined, paths);
+        this.name = "MaxDepthExceededError";
+        this.maxDepth = maxDepth;
+    }
+}
+
+/**
+ * Thrown when an entity source fails to look up the entities.
+ */
+export class SourceLookupError extends AggregationError {
+    /**
+     * The error thrown by the entity source.
+     */
+    readonly cause: unknown;
+
+    constructor(source: string, paths: string[], cause: unknown, message?: string) {
+        super(message ?? `Entity source ${source} failed to look up the entities: ${getErrorMessage(cause)}`, source, paths);
+        this.name = "SourceLookupError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * Thrown when an entity source does not finish the lookup in time.
+ */
+export class SourceTimeoutError extends SourceLookupError {
+    /**
+     * The timeout in milliseconds.
+     */
+    readonly timeout: number;
+
+    constructor(source: string, paths: string[], timeout: number) {
+        super(source, paths, undefined, `Entity source ${source} did not finish the lookup within ${timeout}ms.`);
+        this.name = "SourceTimeoutError";
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown by the HttpEntitySource when a batch request fails.
+ * Like any error of an entity source, it is wrapped in a SourceLookupError by the aggregator.
+ */
+export class HttpRequestError extends Error {
+    /**
+     * The name of the entity source.
+     */
+    readonly source: string;
+
+    /**
+     * The status of the response, undefined if there is no response (e.g. a network error).
+     */
+    readonly status?: number;
+
+    /**
+     * The serialized IDs of the failed request.
+     */
+    readonly ids: string[];
+
+    /**
+     * The error thrown by `fetch` or by the parsing of the response, if any.
+     */
+    readonly cause: unknown;
+
+    constructor(source: string, ids: string[], status?: number, cause?: unknown) {
+        super(`The request of entity source ${source} for ${ids.length} IDs failed: ${status !== undefined ? `status ${status}` : getErrorMessage(cause)}`);
+        this.name = "HttpRequestError";
+        this.source = source;
+        this.status = status;
+        this.ids = ids;
+        this.cause = cause;
+    }
+}
+
+function formatKey(id: EntityKey): string {
+    return _.isPlainObject(id) ? JSON.stringify(id) : `${id}`;
+}
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : `${error}`;
+}
@@ -1,3 +1,14 @@
 export { Aggregator } from "./Aggregator";
+export { AggregationPlan } from "./AggregationPlan";
+export { SimpleEntitySource, SimpleEntitySourceOpts } from "./SimpleEntitySource";
+export { GroupedEntitySource, GroupedEntitySourceOpts } from "./GroupedEntitySource";
 export { EntityCache, CachedEntitySource, CachedEntitySourceOpts } from "./CachedEntitySource";
-export { EntitySource, AggregationConfiguration, SingleAggregationOpts } from "./types";
+export { HttpEntitySource, HttpEntitySourceOpts, HttpFetch } from "./HttpEntitySource";
+export { InMemoryEntityCache, InMemoryEntityCacheOpts, InMemoryEntityCacheStats } from "./InMemoryEntityCache";
+export { InvalidationTransport, InvalidationMessage, InProcessInvalidationTransport } from "./invalidation";
+export { AggregationSession } from "./AggregationSession";
+export { expressMiddleware, koaMiddleware, AggregationMiddlewareOpts, ExpressRequestLike, ExpressResponseLike, KoaContextLike } from "./middleware";
+export { AggregationEvents, AggregationEventName, AggregatorHooks, AggregationEventEmitter, Tracer, Span } from "./instrumentation";
+export { AggregationError, UnknownSourceError, PathSyntaxError, InvalidConfigurationError, MergeConflictError, EntityNotFoundError, MaxDepthExceededError, SourceLookupError, SourceTimeoutError, HttpRequestError } from "./errors";
+export { Aggregated, ValidatedConfiguration, SourceRegistry } from "./inference";
+export { EntitySource, EntityKey, KeySerializer, AggregationConfiguration, SingleAggregationOpts, AggregatorOpts, AggregateOpts, AggregateStreamOpts, AggregationReport, UnresolvedEntity, PlanExplanation, SourceSelector, TransformContext, MergeStrategy, MergeConflictPolicy, ErrorPolicy, SourcePolicy, RetryOpts } from "./types";
@@ -0,0 +1,251 @@
+import type { AggregationReport, EntitySource } from "./types";
+
+/*
+ * Type-level helpers to check the aggregation configurations against the input type,
+ *  and to infer the type of the aggregated data.
+ *
+ * Whenever the input, the configuration or the entity source is not precisely typed (e.g. `any`),
+ *  the types fall back to `any`, so that untyped code keeps working as before.
+ */
+
+/**
+ * A map from the names of the entity sources to the sources.
+ */
+export type SourceRegistry<TSourceKey extends string = string> = { [name in TSourceKey]: EntitySource };
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+/**
+ * The paths with `**` or filters, which depend on the data rather than its type.
+ */
+type DynamicPath = `${string}**${string}` | `${string}[${string}`;
+
+type HasDynamicPaths<C> = [Extract<keyof C, DynamicPath>] extends [never] ? false : true;
+
+type PathNotFound = { readonly __aggregatorPathNotFound__: true };
+
+/**
+ * The type of the value at the (normalized) path, going through arrays, or PathNotFound.
+ */
+type ResolvePath<T, P extends string> =
+    IsAny<T> extends true ? any
+    : T extends null | undefined ? never
+    : P extends `*.${infer Rest}`
+    ? (T extends readonly (infer E)[] ? ResolvePath<E, Rest> : T extends object ? ResolvePath<T[keyof T], Rest> : PathNotFound)
+    : T extends readonly (infer E)[] ? ResolvePath<E, P>
+    : P extends `${infer Head}.${infer Rest}`
+    ? (Head extends keyof T ? ResolvePath<T[Head], Rest> : PathNotFound)
+    : P extends keyof T ? T[P] : PathNotFound;
+
+type IsValidPath<T, P extends string> =
+    P extends DynamicPath ? true
+    : IsAny<ResolvePath<T, P>> extends true ? true
+    : [ResolvePath<T, P>] extends [PathNotFound] ? false
+    : true;
+
+/**
+ * The type of the entities of a source, read from the return type of its `get` method.
+ */
+type EntityOf<TRegistry, TSourceName> =
+    TSourceName extends keyof TRegistry
+    ? TRegistry[TSourceName] extends { get(...args: any[]): Promise<infer TResult> } ? NonNullable<TResult> : any
+    : any;
+
+/**
+ * The type of one injected entity, after the transform and the nested aggregation.
+ */
+type EnrichedEntity<O, TRegistry> =
+    O extends { aggregate: infer TNested }
+    ? Aggregated<TransformedEntity<O, TRegistry>, TNested, TRegistry>
+    : TransformedEntity<O, TRegistry>;
+
+type TransformedEntity<O, TRegistry> =
+    O extends { transform: (...args: any[]) => infer TTransformed }
+    ? Awaited<TTransformed>
+    : ProjectedEntity<O, EntityOf<TRegistry, SourceNameOf<O>>>;
+
+/**
+ * The names of the sources of a path: the sources of the map, or the names returned by the function.
+ * Without a map, the name comes from the data, so the entities are not typed.
+ */
+type SourceNameOf<O> =
+    O extends { source: infer TSource }
+    ? TSource extends string ? TSource
+    : TSource extends { map: infer TMap } ? TMap[keyof TMap]
+    : TSource extends (...args: any[]) => infer TSourceName ? NonNullable<TSourceName>
+    : string
+    : never;
+
+/**
+ * Whether some objects may not be enriched: when they do not match `when`, or when no source is found for them.
+ */
+type IsConditional<O> = O extends { when: any } ? true : O extends { source: string } ? false : true;
+
+/**
+ * The entity trimmed by `select` and `omit`. The entities of a group are trimmed one by one.
+ */
+type ProjectedEntity<O, E> =
+    IsAny<E> extends true ? any
+    : E extends readonly (infer TElement)[] ? ProjectedEntity<O, TElement>[]
+    : WithoutOmitted<O, Selected<O, E>>;
+
+/**
+ * The selected fields, and the first fields of the nested paths, which are kept for the nested aggregation.
+ */
+type Selected<O, E> = O extends { select: readonly (infer F)[] } ? Pick<E, Extract<F | NestedReads<O>, keyof E>> : E;
+
+type NestedReads<O> = O extends { aggregate: infer TNested } ? PathHead<keyof TNested> : never;
+
+type PathHead<K> = K extends `${infer Head}.${string}` ? Head : K;
+
+type WithoutOmitted<O, E> = O extends { omit: readonly (infer F)[] } ? Omit<E, Extract<F, keyof E>> : E;
+
+type IsArrayField<F> = [NonNullable<F>] extends [never] ? false : NonNullable<F> extends readonly any[] ? true : false;
+
+type InjectedArray<O, TRegistry> =
+    O extends { many: { omitMissing: true } } ? WithDefault<O, EnrichedEntity<O, TRegistry>>[] : (WithDefault<O, EnrichedEntity<O, TRegistry>> | null)[];
+
+/**
+ * The entity, or the default injected instead of a missing entity.
+ */
+type WithDefault<O, E> =
+    O extends { default: infer TDefault }
+    ? E | (TDefault extends (...args: any[]) => infer TValue ? TValue : TDefault)
+    : E;
+
+type LeafKeys<C> = { [K in keyof C]: K extends `${string}.${string}` ? never : K }[keyof C];
+
+type NestedHeads<C> = keyof C extends infer K ? (K extends `${infer Head}.${string}` ? Head : never) : never;
+
+type SubConfig<C, THead extends string> = { [K in keyof C as K extends `${THead}.${infer Rest}` ? Rest : never]: C[K] };
+
+/**
+ * The configuration for the elements of an array, where `*` stands for the elements.
+ */
+type ElementConfig<C> = { [K in keyof C as K extends `*.${infer Rest}` ? Rest : K]: C[K] };
+
+/**
+ * The fields removed by `removeIdKey`, including the fields of composite keys.
+ */
+type RemovedKeys<T, C> = {
+    [K in LeafKeys<C>]: C[K] extends { removeIdKey: true }
+    ? (C[K] extends { to: any } ? K : K extends keyof T ? (IsArrayField<T[K]> extends true ? never : K) : K)
+    | (C[K] extends { compositeKey: infer TComposite } ? TComposite[keyof TComposite] : never)
+    : never
+}[LeafKeys<C>];
+
+/**
+ * The fields holding arrays of IDs that are replaced by the entities (MERGE mode).
+ */
+type ReplacedFields<T, C, TRegistry> = {
+    [K in keyof T as K extends LeafKeys<C> ? (C[K] extends { to: any } ? never : IsArrayField<T[K]> extends true ? K : never) : never]:
+    K extends keyof C ? InjectedArray<C[K], TRegistry> : never
+};
+
+type ToKeyFields<T, C, TRegistry> = UnionToIntersection<{
+    [K in LeafKeys<C>]: C[K] extends { to: { key: infer TKey extends string } }
+    ? (K extends keyof T ? IsArrayField<T[K]> : false) extends true
+    ? (IsConditional<C[K]> extends true ? { [P in TKey]?: InjectedArray<C[K], TRegistry> } : { [P in TKey]: InjectedArray<C[K], TRegistry> })
+    : C[K] extends { to: { omitNull: true } }
+    ? { [P in TKey]?: WithDefault<C[K], EnrichedEntity<C[K], TRegistry>> }
+    : IsConditional<C[K]> extends true
+    ? { [P in TKey]?: WithDefault<C[K], EnrichedEntity<C[K], TRegistry>> | null }
+    : { [P in TKey]: WithDefault<C[K], EnrichedEntity<C[K], TRegistry>> | null }
+    : never
+}[LeafKeys<C>]>;
+
+/**
+ * The keys of the paths whose entities are merged into the object (MERGE mode).
+ */
+type MergedKeys<T, C> = {
+    [K in LeafKeys<C>]: C[K] extends { to: any } ? never : (K extends keyof T ? IsArrayField<T[K]> : false) extends true ? never : K
+}[LeafKeys<C>];
+
+/**
+ * The fields of the entities overwriting the fields of the object.
+ */
+type MergedEntities<T, C, TRegistry> = UnionToIntersection<{
+    [K in MergedKeys<T, C>]: C[K] extends { merge: "preserve" } ? never : MaybePartial<C[K], MergedFields<C[K], EnrichedEntity<C[K], TRegistry>>>
+}[MergedKeys<T, C>]>;
+
+/**
+ * The fields of the entities only added when the object does not have them.
+ */
+type PreservedEntities<T, C, TRegistry> = UnionToIntersection<{
+    [K in MergedKeys<T, C>]: C[K] extends { merge: "preserve" } ? MaybePartial<C[K], EnrichedEntity<C[K], TRegistry>> : never
+}[MergedKeys<T, C>]>;
+
+type MaybePartial<O, E> = IsConditional<O> extends true ? (IsAny<E> extends true ? any : Partial<E>) : E;
+
+/**
+ * The fields written by a merge strategy. A custom merger gives the whole merged object, unless it returns `any`.
+ */
+type MergedFields<O, E> =
+    O extends { merge: { prefix: infer TPrefix extends string } }
+    ? (IsAny<E> extends true ? any : { [K in keyof E as K extends string ? `${TPrefix}${K}` : never]: E[K] })
+    : O extends { merge: (...args: any[]) => infer TMerged }
+    ? (IsAny<TMerged> extends true ? E : TMerged)
+    : E;
+
+type MergeInto<TBase, TMerged> = unknown extends TMerged ? TBase : Omit<TBase, keyof TMerged> & TMerged;
+
+type PreserveInto<TBase, TPreserved> = unknown extends TPreserved ? TBase : TBase & Omit<TPreserved, keyof TBase>;
+
+type EnrichObject<T, C, TRegistry> = Simplify<PreserveInto<MergeInto<
+    Omit<T, RemovedKeys<T, C> | NestedHeads<C> | keyof ReplacedFields<T, C, TRegistry>>
+    & { [K in keyof T as K extends NestedHeads<C> ? K : never]: K extends string ? EnrichValue<T[K], SubConfig<C, K>, TRegistry> : never }
+    & ReplacedFields<T, C, TRegistry>
+    & ToKeyFields<T, C, TRegistry>,
+    MergedEntities<T, C, TRegistry>
+>, PreservedEntities<T, C, TRegistry>>>;
+
+type EnrichValue<T, C, TRegistry> =
+    IsAny<T> extends true ? any
+    : T extends null | undefined ? T
+    : T extends readonly (infer E)[] ? EnrichValue<E, ElementConfig<C>, TRegistry>[]
+    : T extends object
+    ? ("*" extends NestedHeads<C> ? { [K in keyof T]: EnrichValue<T[K], SubConfig<C, "*">, TRegistry> } : EnrichObject<T, C, TRegistry>)
+    : T;
+
+/**
+ * The type of the data aggregated with the configuration `TConfig`.
+ */
+export type Aggregated<TInput, TConfig, TRegistry = SourceRegistry> =
+    IsAny<TInput> extends true ? any
+    : IsAny<TConfig> extends true ? any
+    : unknown extends TInput ? any
+    : string extends keyof TConfig ? any
+    : HasDynamicPaths<TConfig> extends true ? any
+    : EnrichValue<TInput, TConfig, TRegistry>;
+
+/**
+ * The aggregated data, or null for nullish input.
+ */
+export type AggregationResult<TInput, TConfig, TRegistry = SourceRegistry> =
+    Aggregated<NonNullable<TInput>, TConfig, TRegistry> | (null extends TInput ? null : never);
+
+/**
+ * The result of an aggregation call: an AggregationReport with the option `report`, otherwise the data.
+ */
+export type Reported<TResult, TOpts> = TOpts extends { report: true } ? AggregationReport<TResult> : TResult;
+
+/**
+ * The configuration with every path checked against the input type.
+ * An invalid path makes the configuration of that path require a property naming the error.
+ */
+export type ValidatedConfiguration<TInput, TConfig, TRegistry = SourceRegistry> =
+    IsAny<TInput> extends true ? unknown
+    : unknown extends TInput ? unknown
+    : {
+        [K in keyof TConfig]: K extends string
+        ? IsValidPath<TInput, K> extends true
+        ? TConfig[K] extends { aggregate: infer TNested }
+        ? { aggregate: ValidatedConfiguration<TransformedEntity<TConfig[K], TRegistry>, TNested, TRegistry> }
+        : unknown
+        : { __invalidPath__: `"${K}" is not a path of the input` }
+        : unknown
+    };
@@ -0,0 +1,121 @@
+import type { EntityKey } from "./types";
+
+/**
+ * The events reported by the aggregator and by the entity sources, with their payloads.
+ * The durations are in milliseconds.
+ */
+export type AggregationEvents = {
+    aggregationStart: { context: Record<string, any> };
+    aggregationEnd: { context: Record<string, any>; duration: number; rounds: number; error?: unknown };
+    sourcePrepareStart: { source: string; ids: number; round: number };
+    sourcePrepareEnd: { source: string; ids: number; round: number; duration: number; error?: unknown };
+    entityMissing: { source: string; id: EntityKey; path: string };
+    // Two enrichments wrote the same key of the object at the path, `paths` are the paths of their IDs
+    mergeConflict: { source: string; key: string; path: string; paths: string[] };
+    // Reported by the CachedEntitySource, with the number of IDs found in the cache or not
+    cacheHit: { source: string; ids: number };
+    cacheMiss: { source: string; ids: number };
+};
+
+export type AggregationEventName = keyof AggregationEvents;
+
+/**
+ * The functions called on the events. The hooks must not throw, their errors are ignored.
+ */
+export type AggregatorHooks = {
+    [TEvent in AggregationEventName]?: (event: AggregationEvents[TEvent]) => void;
+};
+
+/**
+ * Anything that emits named events, e.g. an EventEmitter of Node.js.
+ */
+export type AggregationEventEmitter = {
+    emit(event: AggregationEventName, payload: AggregationEvents[AggregationEventName]): unknown;
+};
+
+/**
+ * A span, compatible with the spans of OpenTelemetry.
+ */
+export interface Span {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    recordException(exception: any): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(): unknown;
+}
+
+/**
+ * A tracer, compatible with the tracers of OpenTelemetry (e.g. `trace.getTracer("aggregator")`).
+ */
+export interface Tracer {
+    startSpan(name: string, options?: { attributes?: Record<string, string | number | boolean> }): Span;
+}
+
+/**
+ * The status code of the failed spans in OpenTelemetry.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Reports the events to the hooks (or the event emitter) and the spans to the tracer.
+ * Neither the hooks nor the tracer can break the aggregation: their errors are ignored.
+ */
+export class Instrumentation {
+    private hooks?: AggregatorHooks | AggregationEventEmitter;
+    private tracer?: Tracer;
+
+    constructor(hooks?: AggregatorHooks | AggregationEventEmitter, tracer?: Tracer) {
+        this.hooks = hooks;
+        this.tracer = tracer;
+    }
+
+    public emit<TEvent extends AggregationEventName>(name: TEvent, event: AggregationEvents[TEvent]): void {
+        try {
+            if (isEventEmitter(this.hooks)) {
+                this.hooks.emit(name, event);
+            } else {
+                const hook = this.hooks?.[name] as ((event: AggregationEvents[TEvent]) => void) | undefined;
+                hook?.(event);
+            }
+        } catch {
+            // The hooks must not break the aggregation
+        }
+    }
+
+    /**
+     * Run a task within a span, which records the error of the task, if any.
+     */
+    public async trace<T>(name: string, attributes: Record<string, string | number | boolean>, task: () => Promise<T>): Promise<T> {
+        const span = this.startSpan(name, attributes);
+        try {
+            return await task();
+        } catch (error) {
+            ignoreErrors(() => {
+                span?.recordException(error);
+                span?.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : `${error}` });
+            });
+            throw error;
+        } finally {
+            ignoreErrors(() => span?.end());
+        }
+    }
+
+    private startSpan(name: string, attributes: Record<string, string | number | boolean>): Span | undefined {
+        let span: Span | undefined;
+        ignoreErrors(() => {
+            span = this.tracer?.startSpan(name, { attributes });
+        });
+        return span;
+    }
+}
+
+function isEventEmitter(hooks: AggregatorHooks | AggregationEventEmitter | undefined): hooks is AggregationEventEmitter {
+    return !!hooks && typeof (hooks as AggregationEventEmitter).emit === "function";
+}
+
+function ignoreErrors(fn: () => void) {
+    try {
+        fn();
+    } catch {
+        // The tracer must not break the aggregation
+    }
+}
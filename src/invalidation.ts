@@ -0,0 +1,56 @@
+/**
+ * An invalidation broadcast by an instance of a CachedEntitySource to the other instances with the same name.
+ * The message is plain JSON, so that it can be sent between processes.
+ */
+export type InvalidationMessage = {
+    // The name of the entity source
+    source: string;
+    // The random ID of the instance that published the message, which ignores its own messages
+    origin: string;
+    // The serialized IDs of the invalidated entities
+    ids?: string[];
+    // The invalidated tags
+    tags?: string[];
+    // Whether all the entities of the source are invalidated
+    all?: boolean;
+};
+
+/**
+ * Carries the invalidations between the instances of the entity sources, e.g. over Redis pub/sub.
+ *
+ * An adapter must deliver every published message to the listeners of every instance, including the publishing one.
+ * The delivery may be asynchronous, and the order of the messages does not matter.
+ */
+export interface InvalidationTransport {
+    /**
+     * Broadcast an invalidation.
+     */
+    publish(message: InvalidationMessage): Promise<void>;
+
+    /**
+     * Listen to the invalidations.
+     * @returns A function to stop listening
+     */
+    subscribe(listener: (message: InvalidationMessage) => void): () => void;
+}
+
+/**
+ * An implementation of the InvalidationTransport interface for the sources of a single process,
+ *  e.g. several aggregators with their own caches.
+ */
+export class InProcessInvalidationTransport implements InvalidationTransport {
+    private listeners = new Set<(message: InvalidationMessage) => void>();
+
+    async publish(message: InvalidationMessage): Promise<void> {
+        for (const listener of [...this.listeners]) {
+            listener(message);
+        }
+    }
+
+    subscribe(listener: (message: InvalidationMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
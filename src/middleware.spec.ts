@@ -0,0 +1,86 @@
+import { Aggregator } from "./Aggregator";
+import { SourceLookupError } from "./errors";
+import { expressMiddleware, KoaContextLike, koaMiddleware } from "./middleware";
+import { SimpleEntitySource } from "./SimpleEntitySource";
+
+const users = [{ id: 'A', name: 'Andy' }];
+const todos = [{ id: 'T1', task: 'Study' }];
+
+const aggregator = new Aggregator({
+    user: new SimpleEntitySource("user", { lookupUsing: (ids) => users.filter((user) => ids.includes(user.id)), entityIdBy: "id" }),
+    todo: new SimpleEntitySource("todo", { lookupUsing: (ids) => todos.filter((todo) => ids.includes(todo.id)), entityIdBy: "id" }),
+    broken: new SimpleEntitySource("broken", { lookupUsing: () => { throw new Error('down'); }, entityIdBy: "id" }),
+});
+
+const config = {
+    "*.assigneeId": { source: "user", to: { key: "assignee" } },
+    "*.todoId": { source: "todo", to: { key: "task" } },
+} as const;
+
+const records = () => [{ assigneeId: 'A', todoId: 'T1' }];
+
+/**
+ * Run the Express middleware, then a route handler sending the body, and resolve with the body actually sent.
+ */
+function runExpress(middleware: ReturnType<typeof expressMiddleware>, query: Record<string, any>, statusCode: number, body: any) {
+    return new Promise<{ sent?: any; error?: any }>((resolve) => {
+        const res = { statusCode, json: (sent: any) => resolve({ sent }) };
+        middleware({ query }, res, (error) => error ? resolve({ error }) : res.json(body));
+    });
+}
+
+describe('Express middleware', () => {
+    test('Happy path: the body should be aggregated before it is sent', async () => {
+        const { sent } = await runExpress(expressMiddleware(aggregator, config), {}, 200, records());
+        expect(sent).toEqual([{ assigneeId: 'A', todoId: 'T1', assignee: users[0], task: todos[0] }]);
+    });
+    test('With "expand": only the entries named in the query should be aggregated', async () => {
+        const middleware = expressMiddleware(aggregator, config, { expand: true });
+        expect((await runExpress(middleware, { expand: 'task,unknown' }, 200, records())).sent).toEqual([{ assigneeId: 'A', todoId: 'T1', task: todos[0] }]);
+        expect((await runExpress(middleware, {}, 200, records())).sent).toEqual(records());
+        const customParameter = expressMiddleware(aggregator, config, { expand: 'include' });
+        expect((await runExpress(customParameter, { include: ['assignee', 'task'] }, 200, records())).sent).toEqual([
+            { assigneeId: 'A', todoId: 'T1', assignee: users[0], task: todos[0] },
+        ]);
+    });
+    test('The bodies of the failed responses should be sent as they are', async () => {
+        const { sent } = await runExpress(expressMiddleware(aggregator, config), {}, 404, { assigneeId: 'A' });
+        expect(sent).toEqual({ assigneeId: 'A' });
+    });
+    test('The errors of the aggregation should be given to next', async () => {
+        const middleware = expressMiddleware(aggregator, { "userId": { source: "broken" } });
+        const { sent, error } = await runExpress(middleware, {}, 200, { userId: 'A' });
+        expect(sent).toBeUndefined();
+        expect(error).toBeInstanceOf(SourceLookupError);
+    });
+});
+
+describe('Koa middleware', () => {
+    test('Happy path: the body set by the next middlewares should be aggregated, with the context', async () => {
+        const aggregationStart = jest.fn();
+        const contextAggregator = new Aggregator({ user: new SimpleEntitySource("user", { lookupUsing: (ids) => users.filter((user) => ids.includes(user.id)), entityIdBy: "id" }) }, {
+            hooks: { aggregationStart },
+        });
+        const middleware = koaMiddleware(contextAggregator, { "assigneeId": { source: "user", to: { key: "assignee" } } }, {
+            expand: true,
+            context: (ctx: KoaContextLike & { state: { tenant: string } }) => ({ tenant: ctx.state.tenant }),
+        });
+        const ctx = { status: 200, body: undefined as any, query: { expand: 'assignee' }, state: { tenant: 'T' } };
+        await middleware(ctx, async () => {
+            ctx.body = { assigneeId: 'A' };
+        });
+        expect(ctx.body).toEqual({ assigneeId: 'A', assignee: users[0] });
+        expect(aggregationStart).toHaveBeenCalledWith({ context: { tenant: 'T' } });
+    });
+    test('Non-JSON bodies and failed responses should be left untouched, and errors thrown', async () => {
+        const middleware = koaMiddleware(aggregator, config);
+        const text = { status: 200, body: 'plain text' };
+        await middleware(text, async () => undefined);
+        expect(text.body).toBe('plain text');
+        const failed = { status: 500, body: records() };
+        await middleware(failed, async () => undefined);
+        expect(failed.body).toEqual(records());
+        const broken = { status: 200, body: { userId: 'A' } };
+        await expect(koaMiddleware(aggregator, { "userId": { source: "broken" } })(broken, async () => undefined)).rejects.toThrow(SourceLookupError);
+    });
+});
@@ -0,0 +1,130 @@
+import _ from "lodash";
+import { AggregationPlan } from "./AggregationPlan";
+import { Aggregator } from "./Aggregator";
+import { AggregationConfiguration, SingleAggregationOpts } from "./types";
+
+/*
+ * Route-level middlewares enriching the JSON bodies of the responses.
+ * Only the parts of Express and Koa used here are typed, so that neither is a dependency.
+ */
+
+/**
+ * The part of an Express request used by the middleware.
+ */
+export type ExpressRequestLike = { query?: Record<string, any> };
+
+/**
+ * The part of an Express response used by the middleware.
+ */
+export type ExpressResponseLike = { statusCode: number; json(body: any): any };
+
+/**
+ * The part of a Koa context used by the middleware.
+ */
+export type KoaContextLike = { status: number; body?: any; query?: Record<string, any> };
+
+export type AggregationMiddlewareOpts<TRequest> = {
+    /**
+     * Let the clients choose the entries of the configuration with a query parameter, e.g. `?expand=assignee,task`.
+     * `true` reads the parameter `expand`, a string gives the name of the parameter.
+     * Then only the chosen entries are aggregated, and none without the parameter.
+     * An entry is named after its target key (`to.key`), or after its path if the entity is merged. The unknown names are ignored.
+     * Defaults to false: every entry is aggregated.
+     */
+    expand?: boolean | string;
+    /**
+     * The context of the aggregation, e.g. the current user, read from the request (Express) or the context (Koa).
+     */
+    context?: (request: TRequest) => Record<string, any>;
+};
+
+/**
+ * Create an Express middleware aggregating the bodies sent with `res.json` (or `res.send` with an object).
+ * The bodies of the responses that are not successful (2xx) are sent as they are.
+ * The errors of the aggregation are given to `next`, so that the error handlers of the application respond.
+ *
+ * @param aggregator The aggregator
+ * @param config The configuration of the route
+ * @param opts The options of the middleware
+ * @throws {AggregationError} If the configuration is invalid, when the middleware is created.
+ */
+export function expressMiddleware<TSourceKey extends string, TRequest extends ExpressRequestLike = ExpressRequestLike>(
+    aggregator: Aggregator<TSourceKey, any>,
+    config: AggregationConfiguration<TSourceKey>,
+    opts: AggregationMiddlewareOpts<TRequest> = {},
+): (req: TRequest, res: ExpressResponseLike, next: (error?: any) => void) => void {
+    const plans = createPlans(aggregator, config, opts.expand);
+    return (req, res, next) => {
+        const send = res.json.bind(res);
+        res.json = (body: any) => {
+            if (!isSuccessful(res.statusCode) || !isAggregatable(body)) {
+                return send(body);
+            }
+            plans.of(req.query).aggregate(body, { context: opts.context?.(req) })
+                .then((result) => send(result), (error) => next(error));
+            return res;
+        };
+        next();
+    };
+}
+
+/**
+ * Create a Koa middleware aggregating the body set by the next middlewares.
+ * The bodies of the responses that are not successful (2xx), and the bodies that are not JSON objects or arrays, are left as they are.
+ * The errors of the aggregation are thrown, so that the error handlers of the application respond.
+ *
+ * @param aggregator The aggregator
+ * @param config The configuration of the route
+ * @param opts The options of the middleware
+ * @throws {AggregationError} If the configuration is invalid, when the middleware is created.
+ */
+export function koaMiddleware<TSourceKey extends string, TContext extends KoaContextLike = KoaContextLike>(
+    aggregator: Aggregator<TSourceKey, any>,
+    config: AggregationConfiguration<TSourceKey>,
+    opts: AggregationMiddlewareOpts<TContext> = {},
+): (ctx: TContext, next: () => Promise<any>) => Promise<void> {
+    const plans = createPlans(aggregator, config, opts.expand);
+    return async (ctx, next) => {
+        await next();
+        if (isSuccessful(ctx.status) && isAggregatable(ctx.body)) {
+            ctx.body = await plans.of(ctx.query).aggregate(ctx.body, { context: opts.context?.(ctx) });
+        }
+    };
+}
+
+/**
+ * Compile the configuration once, and the configurations of the expanded entries once per combination.
+ */
+function createPlans<TSourceKey extends string>(aggregator: Aggregator<TSourceKey, any>, config: AggregationConfiguration<TSourceKey>, expand?: boolean | string) {
+    const fullPlan = aggregator.compile(config);
+    const parameter = expand === true ? "expand" : expand || undefined;
+    const plans = new Map<string, AggregationPlan>();
+    return {
+        of(query?: Record<string, any>): AggregationPlan {
+            if (!parameter) {
+                return fullPlan;
+            }
+            const names = _.flatMap(_.castArray(query?.[parameter] ?? []), (value) => `${value}`.split(",")).map((name) => name.trim());
+            const paths = Object.keys(config).filter((path) => names.includes(expandName(path, config[path])));
+            const key = paths.join("\n");
+            let plan = plans.get(key);
+            if (!plan) {
+                plan = aggregator.compile(_.pick(config, paths));
+                plans.set(key, plan);
+            }
+            return plan;
+        },
+    };
+}
+
+function expandName(path: string, pathOption: SingleAggregationOpts<string>): string {
+    return pathOption.to ? pathOption.to.key : path.replace(/^\*\./, "");
+}
+
+function isSuccessful(status: number): boolean {
+    return status >= 200 && status < 300;
+}
+
+function isAggregatable(body: any): boolean {
+    return _.isPlainObject(body) || _.isArray(body);
+}
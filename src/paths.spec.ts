@@ -0,0 +1,69 @@
+import { PathSyntaxError } from "./errors";
+import { collectPathsAndValues, parsePath } from "./paths";
+
+describe('parsePath', () => {
+    test('Keys, wildcards, recursive descent and filters should be parsed', () => {
+        expect(parsePath('*.items[type=user].refId')).toEqual([
+            { type: "wildcard", filters: [] },
+            { type: "key", key: "items", filters: [{ type: "equals", field: "type", value: "user" }] },
+            { type: "key", key: "refId", filters: [] },
+        ]);
+        expect(parsePath('byDay.*.userId')[1]).toEqual({ type: "wildcard", filters: [] });
+        expect(parsePath('**.authorId')[0]).toEqual({ type: "descent" });
+        expect(parsePath("items[status != 'done'][0].id")[0]).toEqual({
+            type: "key",
+            key: "items",
+            filters: [{ type: "notEquals", field: "status", value: "done" }, { type: "index", index: 0 }],
+        });
+        expect(parsePath('items[assigneeId].id')[0]).toMatchObject({ filters: [{ type: "exists", field: "assigneeId" }] });
+    });
+    test.each([
+        ['a..b', 2],
+        ['a.b.', 4],
+        ['items[type=user.refId', 5],
+        ['items[type=].refId', 5],
+        ['items]', 5],
+        ['items[type=user]x.id', 16],
+        ['a.**', 4],
+        ['a.b*.c', 3],
+        ['**[x].id', 2],
+    ])('An invalid path (%s) should throw a PathSyntaxError', (path, position) => {
+        expect(() => parsePath(path)).toThrow(PathSyntaxError);
+        try {
+            parsePath(path);
+        } catch (error) {
+            expect((error as PathSyntaxError).position).toBe(position);
+            expect((error as PathSyntaxError).paths).toEqual([path]);
+        }
+    });
+});
+
+describe('collectPathsAndValues', () => {
+    test('A wildcard should go through the values of an object', () => {
+        const data = { byDay: { '2024-01-01': { userId: 'A' }, '2024.01.02': { userId: 'B' } } };
+        expect(collectPathsAndValues(data, parsePath('byDay.*.userId'))).toEqual([
+            { path: 'byDay.2024-01-01.userId', parentPath: 'byDay.2024-01-01', value: 'A', objectAbsent: false },
+            { path: 'byDay["2024.01.02"].userId', parentPath: 'byDay["2024.01.02"]', value: 'B', objectAbsent: false },
+        ]);
+    });
+    test('A wildcard should skip the values that cannot hold the ID field', () => {
+        const data = { byDay: { d1: { userId: 'A' }, count: 3, label: null } };
+        expect(collectPathsAndValues(data, parsePath('byDay.*.userId')).map((descriptor) => descriptor.path)).toEqual(['byDay.d1.userId']);
+        expect(collectPathsAndValues({ userId: 'A', title: 'x' }, parsePath('*.userId'))).toEqual([]);
+        expect(collectPathsAndValues({ author: 'x' }, parsePath('author.userId'))).toEqual([
+            { path: 'author.userId', parentPath: 'author', value: undefined, objectAbsent: true },
+        ]);
+    });
+    test('Recursive descent should find the fields at any depth, and stop at cycles', () => {
+        const thread: any[] = [{ authorId: 'A', replies: [{ authorId: 'B', replies: [] }] }];
+        thread[0].replies[0].parent = thread[0];
+        expect(collectPathsAndValues({ thread }, parsePath('**.authorId')).map((descriptor) => descriptor.path))
+            .toEqual(['thread[0].authorId', 'thread[0].replies[0].authorId']);
+    });
+    test('Filters should keep the matching elements with their indices', () => {
+        const data = { items: [{ type: 'user', refId: 'A' }, { type: 'team', refId: 'T' }, { type: 'user', refId: 'B' }] };
+        expect(collectPathsAndValues(data, parsePath('items[type=user].refId')).map((descriptor) => descriptor.path))
+            .toEqual(['items[0].refId', 'items[2].refId']);
+        expect(collectPathsAndValues(data, parsePath('items[1].refId')).map((descriptor) => descriptor.value)).toEqual(['T']);
+    });
+});
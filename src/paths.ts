@@ -0,0 +1,247 @@
+import _ from "lodash";
+import { PathSyntaxError } from "./errors";
+
+/**
+ * A filter applied to the values at a segment of a path.
+ * - `[field=value]` and `[field!=value]` compare the string conversion of a field with the value,
+ * - `[field]` keeps the values where the field is present,
+ * - `[2]` keeps the element at the index.
+ */
+export type PathFilter =
+    | { type: "equals" | "notEquals"; field: string; value: string }
+    | { type: "exists"; field: string }
+    | { type: "index"; index: number };
+
+/**
+ * A segment of a path:
+ * - a key of an object, which goes through arrays,
+ * - `*`, the elements of an array or the values of an object,
+ * - `**`, any number of levels of objects and arrays.
+ */
+export type PathSegment =
+    | { type: "key"; key: string; filters: PathFilter[] }
+    | { type: "wildcard"; filters: PathFilter[] }
+    | { type: "descent" };
+
+/**
+ * A value found at a path in the data.
+ */
+export type PathDescriptor = {
+    // The concrete path of the value, e.g. `items[0].userId`
+    path: string;
+    // The concrete path of the object holding the value
+    parentPath: string;
+    value: any;
+    // Whether the object that should hold the value is missing
+    objectAbsent?: boolean;
+};
+
+/**
+ * Parse a path of an aggregation configuration.
+ * Like any other `*`, a leading `*` goes through the elements of an array or the values of an object, e.g. of a map keyed by date.
+ *
+ * @throws {PathSyntaxError} If the path is invalid.
+ */
+export function parsePath(path: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    let position = 0;
+    while (true) {
+        const start = position;
+        let key = "";
+        while (position < path.length && path[position] !== "." && path[position] !== "[") {
+            if (path[position] === "]") {
+                throw new PathSyntaxError(path, position, `unexpected "]"`);
+            }
+            key += path[position++];
+        }
+        const filters: PathFilter[] = [];
+        while (path[position] === "[") {
+            const end = findFilterEnd(path, position);
+            filters.push(parseFilter(path, position, path.substring(position + 1, end)));
+            position = end + 1;
+        }
+        segments.push(toSegment(path, start, key, filters));
+        if (position === path.length) {
+            break;
+        }
+        if (path[position] !== ".") {
+            throw new PathSyntaxError(path, position, `expected "." or "["`);
+        }
+        position++;
+    }
+    const last = segments[segments.length - 1];
+    if (last.type !== "key" || last.filters.length > 0) {
+        throw new PathSyntaxError(path, path.length, "the path must end with the name of the ID field");
+    }
+    return segments;
+}
+
+/**
+ * Find the values at a parsed path in the data.
+ * Arrays are traversed at any level, and the concrete paths of the values are given with their indices.
+ */
+export function collectPathsAndValues(obj: any, segments: PathSegment[]): PathDescriptor[] {
+    return collect(obj, segments, "", []);
+}
+
+export function joinPath(base: string, key: string): string {
+    if (base.length === 0) {
+        return key;
+    }
+    if (key.startsWith("[")) {
+        return `${base}${key}`;
+    }
+    return `${base}.${key}`;
+}
+
+type Candidate = { value: any; path: string; index?: number };
+
+function collect(obj: any, segments: PathSegment[], cumulatedPath: string, ancestors: object[]): PathDescriptor[] {
+    const [segment, ...rest] = segments;
+    if (segment.type === "descent") {
+        return descend(obj, rest, cumulatedPath, ancestors);
+    }
+    if (segment.type === "wildcard") {
+        // Like the other segments, `*` is skipped on the values that are neither arrays nor objects
+        const children: Candidate[] = _.isArray(obj)
+            ? obj.map((value, index) => ({ value, path: `${cumulatedPath}[${index}]`, index }))
+            : _.isPlainObject(obj)
+                ? Object.keys(obj).map((key) => ({ value: obj[key], path: joinKey(cumulatedPath, key) }))
+                : [{ value: obj, path: cumulatedPath }];
+        // The rest of the path is a field of the children, which the primitive values cannot hold
+        const holders = applyFilters(children, segment.filters).filter((child) => _.isObject(child.value));
+        return _.flatMap(holders, (child) => collect(child.value, rest, child.path, ancestors));
+    }
+    if (_.isArray(obj)) {
+        return _.flatMap(obj, (element, index) => collect(element, segments, `${cumulatedPath}[${index}]`, ancestors));
+    }
+    const pathToCurrentKey = joinKey(cumulatedPath, segment.key);
+    const objValue = _.get(obj, [segment.key]);
+    if (rest.length === 0) {
+        return [{
+            path: pathToCurrentKey,
+            parentPath: cumulatedPath,
+            value: objValue,
+            // A primitive cannot hold the entity, it would be overwritten
+            objectAbsent: !_.isObject(obj),
+        }];
+    }
+    const candidates = applyFilters([{ value: objValue, path: pathToCurrentKey }], segment.filters);
+    return _.flatMap(candidates, (candidate) => collect(candidate.value, rest, candidate.path, ancestors));
+}
+
+/**
+ * Find the values at the rest of the path in the object and in all of its descendants.
+ * Only the values that are present are kept, and an object is not descended into twice in the same branch.
+ */
+function descend(obj: any, rest: PathSegment[], cumulatedPath: string, ancestors: object[]): PathDescriptor[] {
+    if (!(_.isPlainObject(obj) || _.isArray(obj)) || ancestors.includes(obj)) {
+        return [];
+    }
+    const found = _.isArray(obj) ? [] : collect(obj, rest, cumulatedPath, ancestors).filter((descriptor) => descriptor.value !== undefined);
+    const children: Candidate[] = _.isArray(obj)
+        ? obj.map((value, index) => ({ value, path: `${cumulatedPath}[${index}]` }))
+        : Object.keys(obj).map((key) => ({ value: obj[key], path: joinKey(cumulatedPath, key) }));
+    const lineage = [...ancestors, obj];
+    return [...found, ..._.flatMap(children, (child) => descend(child.value, rest, child.path, lineage))];
+}
+
+/**
+ * Apply the filters one after another. The arrays are replaced by their elements matching the filter.
+ */
+function applyFilters(candidates: Candidate[], filters: PathFilter[]): Candidate[] {
+    return filters.reduce((current, filter) => _.flatMap(current, (candidate) => {
+        if (_.isArray(candidate.value)) {
+            return candidate.value
+                .map((value, index) => ({ value, path: `${candidate.path}[${index}]`, index }))
+                .filter((element) => matchesFilter(element, filter));
+        }
+        return matchesFilter(candidate, filter) ? [candidate] : [];
+    }), candidates);
+}
+
+function matchesFilter(candidate: Candidate, filter: PathFilter): boolean {
+    switch (filter.type) {
+        case "index":
+            return candidate.index === filter.index;
+        case "exists":
+            return !_.isNil(_.get(candidate.value, filter.field));
+        case "equals":
+        case "notEquals": {
+            const fieldValue = _.get(candidate.value, filter.field);
+            const equals = !_.isNil(fieldValue) && `${fieldValue}` === filter.value;
+            return filter.type === "equals" ? equals : !equals;
+        }
+    }
+}
+
+/**
+ * Append a key to a concrete path, quoting the keys that lodash would not read as a single key.
+ */
+function joinKey(base: string, key: string): string {
+    return /^[^.[\]"'\\]+$/.test(key) ? joinPath(base, key) : joinPath(base, `[${JSON.stringify(key)}]`);
+}
+
+function toSegment(path: string, start: number, key: string, filters: PathFilter[]): PathSegment {
+    if (key === "**") {
+        if (filters.length > 0) {
+            throw new PathSyntaxError(path, start + 2, `"**" cannot be filtered`);
+        }
+        return { type: "descent" };
+    }
+    if (key === "*") {
+        return { type: "wildcard", filters };
+    }
+    if (key.length === 0) {
+        throw new PathSyntaxError(path, start, "empty segment");
+    }
+    if (key.includes("*")) {
+        throw new PathSyntaxError(path, start + key.indexOf("*"), `"*" must be a segment on its own`);
+    }
+    return { type: "key", key, filters };
+}
+
+/**
+ * Find the "]" closing the filter opened at the position, skipping the quoted values.
+ */
+function findFilterEnd(path: string, open: number): number {
+    let quote: string | null = null;
+    for (let position = open + 1; position < path.length; position++) {
+        const char = path[position];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            }
+        } else if (char === "'" || char === "\"") {
+            quote = char;
+        } else if (char === "[") {
+            throw new PathSyntaxError(path, position, `unexpected "["`);
+        } else if (char === "]") {
+            return position;
+        }
+    }
+    throw new PathSyntaxError(path, open, `unclosed "["`);
+}
+
+function parseFilter(path: string, position: number, content: string): PathFilter {
+    const expression = content.trim();
+    if (/^\d+$/.test(expression)) {
+        return { type: "index", index: Number(expression) };
+    }
+    const comparison = /^([^=!'"]+?)\s*(!=|=)\s*(.*)$/.exec(expression);
+    if (comparison) {
+        const [, field, operator, rawValue] = comparison;
+        if (rawValue.length === 0) {
+            throw new PathSyntaxError(path, position, `missing value in filter "[${content}]"`);
+        }
+        const quoted = /^(["'])(.*)\1$/.exec(rawValue);
+        if (!quoted && /["']/.test(rawValue)) {
+            throw new PathSyntaxError(path, position, `invalid quotes in filter "[${content}]"`);
+        }
+        return { type: operator === "=" ? "equals" : "notEquals", field, value: quoted ? quoted[2] : rawValue };
+    }
+    if (/^[^=!'"\s]+$/.test(expression)) {
+        return { type: "exists", field: expression };
+    }
+    throw new PathSyntaxError(path, position, `invalid filter "[${content}]"`);
+}
@@ -0,0 +1,68 @@
+import { Aggregator } from "./Aggregator";
+import { SourceLookupError } from "./errors";
+import { assertNoDuplicateIds, assertNotPrepared, assertPreparedOnceWith, assertPreparedTimes, assertPreparedWith, createMockSources, MockAssertionError, MockEntitySource } from "./testing";
+
+const users = [
+    { id: 'A', name: 'Andy' },
+    { id: 'B', name: 'Hai' }
+];
+const todos = [
+    { id: 'T1', task: 'Study', ownerId: 'B' },
+    { id: 'T2', task: 'Code', ownerId: 'A' }
+];
+
+describe('MockEntitySource', () => {
+    test('Happy path: the calls should be recorded, and the entities served', async () => {
+        const sources = createMockSources({ user: users, todo: todos });
+        const aggregator = new Aggregator(sources);
+        const result = await aggregator.aggregate([{ userId: 'A', todoId: 'T1' }, { userId: 'C', todoId: 'T2' }], {
+            "*.userId": { source: "user", to: { key: "user" } },
+            "*.todoId": { source: "todo", to: { key: "todo" }, aggregate: { "ownerId": { source: "user", to: { key: "owner" } } } },
+        });
+        expect(result.map((item) => [item.user?.name, item.todo?.owner?.name])).toEqual([['Andy', 'Hai'], [undefined, 'Andy']]);
+        expect(sources.user.batches).toEqual([['A', 'C'], ['B', 'A']]);
+        expect(sources.user.gets).toEqual(['A', 'C', 'B', 'A']);
+        expect(sources.todo.calls[0]).toMatchObject({ method: 'prepare', ids: ['T1', 'T2'] });
+    });
+    test('The latency, the failures and the missing IDs should be configurable', async () => {
+        const user = new MockEntitySource("user", { entities: users, latency: 20, missing: ['B'] });
+        const aggregator = new Aggregator({ user });
+        const startedAt = Date.now();
+        const result = await aggregator.aggregate({ userId: 'A', reviewerId: 'B' }, {
+            "userId": { source: "user", to: { key: "user" } },
+            "reviewerId": { source: "user", to: { key: "reviewer" } },
+        });
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15);
+        expect(result).toMatchObject({ user: users[0], reviewer: null });
+        user.failNext();
+        await expect(aggregator.aggregate({ userId: 'A' }, { "userId": { source: "user" } })).rejects.toThrow(SourceLookupError);
+        user.configure({ latency: 0, fail: (ids) => ids.includes('X') ? new Error('Not allowed') : undefined });
+        await expect(aggregator.aggregate({ userId: 'A' }, { "userId": { source: "user" } })).resolves.toMatchObject({ name: 'Andy' });
+        await expect(aggregator.aggregate({ userId: 'X' }, { "userId": { source: "user" } })).rejects.toThrow('Not allowed');
+        user.reset();
+        expect(user.calls).toEqual([]);
+    });
+});
+
+describe('Assertions', () => {
+    test('The preparations should be asserted', async () => {
+        const sources = createMockSources({ user: users, todo: todos });
+        const aggregator = new Aggregator(sources);
+        await aggregator.aggregate([{ userId: 'A' }, { userId: 'B' }, { userId: 'A' }], { "*.userId": { source: "user" } });
+        assertPreparedOnceWith(sources.user, ['B', 'A']);
+        assertPreparedWith(sources.user, ['A', 'B']);
+        assertNoDuplicateIds(sources.user);
+        assertNotPrepared(sources.todo);
+        expect(() => assertPreparedTimes(sources.user, 2)).toThrow(MockAssertionError);
+        expect(() => assertPreparedOnceWith(sources.user, ['A'])).toThrow('Expected source user to be prepared with [A], but it was prepared with [A, B].');
+    });
+    test('An N+1 lookup should be caught', async () => {
+        const sources = createMockSources({ user: users });
+        const aggregator = new Aggregator(sources);
+        for (const userId of ['A', 'B', 'A']) {
+            await aggregator.aggregate({ userId }, { "userId": { source: "user" } });
+        }
+        expect(() => assertPreparedOnceWith(sources.user, ['A', 'B'])).toThrow(MockAssertionError);
+        expect(() => assertNoDuplicateIds(sources.user)).toThrow('Expected the IDs given to source user to be unique, but A were given several times: [A] then [B] then [A].');
+    });
+});
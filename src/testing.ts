@@ -0,0 +1,105 @@
+import _ from "lodash";
+import { MockEntitySource, MockEntitySourceOpts } from "./MockEntitySource";
+import { EntityKey } from "./types";
+
+/*
+ * The `testing` entry point (`@necrobits/aggregator/testing`): mock entity sources recording their calls,
+ *  and assertions on the recorded calls for the tests of the aggregations, e.g. against N+1 lookups.
+ * The assertions throw a MockAssertionError, so that they work with any test framework.
+ */
+
+export { MockEntitySource, MockEntitySourceOpts, MockSourceCall } from "./MockEntitySource";
+
+/**
+ * Thrown by the assertions of the `testing` entry point.
+ */
+export class MockAssertionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MockAssertionError";
+    }
+}
+
+/**
+ * The mock sources created by `createMockSources`, typed with their entities.
+ */
+export type MockSources<TEntities extends Record<string, any[]>> = { [K in keyof TEntities]: MockEntitySource<TEntities[K][number]> };
+
+/**
+ * Create a mock source per name, serving the given entities, e.g. `new Aggregator(createMockSources({ user: users }))`.
+ *
+ * @param entities The entities of each source
+ * @param opts The options shared by the sources
+ */
+export function createMockSources<TEntities extends Record<string, any[]>>(
+    entities: TEntities,
+    opts: Omit<MockEntitySourceOpts, "entities"> = {},
+): MockSources<TEntities> {
+    const sources = {} as MockSources<TEntities>;
+    for (const name of Object.keys(entities) as (keyof TEntities & string)[]) {
+        sources[name] = new MockEntitySource(name, { ...opts, entities: entities[name] });
+    }
+    return sources;
+}
+
+/**
+ * Assert that the source was prepared the given number of times.
+ */
+export function assertPreparedTimes(source: MockEntitySource, times: number): void {
+    const { batches } = source;
+    if (batches.length !== times) {
+        throw new MockAssertionError(`Expected source ${source.name} to be prepared ${times} time(s), but it was prepared ${batches.length} time(s): ${formatBatches(source, batches)}.`);
+    }
+}
+
+/**
+ * Assert that the source was not prepared at all.
+ */
+export function assertNotPrepared(source: MockEntitySource): void {
+    assertPreparedTimes(source, 0);
+}
+
+/**
+ * Assert that the source was prepared exactly once, with the given IDs in any order.
+ */
+export function assertPreparedOnceWith(source: MockEntitySource, ids: EntityKey[]): void {
+    assertPreparedTimes(source, 1);
+    const [batch] = source.batches;
+    if (!sameIds(source, batch, ids)) {
+        throw new MockAssertionError(`Expected source ${source.name} to be prepared with ${formatIds(source, ids)}, but it was prepared with ${formatIds(source, batch)}.`);
+    }
+}
+
+/**
+ * Assert that one of the preparations of the source was given the IDs, in any order.
+ */
+export function assertPreparedWith(source: MockEntitySource, ids: EntityKey[]): void {
+    const { batches } = source;
+    if (!batches.some((batch) => sameIds(source, batch, ids))) {
+        throw new MockAssertionError(`Expected source ${source.name} to be prepared with ${formatIds(source, ids)}, but it was prepared with ${formatBatches(source, batches)}.`);
+    }
+}
+
+/**
+ * Assert that no ID was given to the source twice, neither in the same preparation nor in different ones.
+ */
+export function assertNoDuplicateIds(source: MockEntitySource): void {
+    const keys = _.flatten(source.batches).map((id) => source.serializeKey(id));
+    const duplicates = _.uniq(keys.filter((key, index) => keys.indexOf(key) !== index));
+    if (duplicates.length > 0) {
+        throw new MockAssertionError(`Expected the IDs given to source ${source.name} to be unique, but ${duplicates.join(", ")} were given several times: ${formatBatches(source, source.batches)}.`);
+    }
+}
+
+function sameIds(source: MockEntitySource, batch: EntityKey[], ids: EntityKey[]): boolean {
+    const serialize = (keys: EntityKey[]) => _.sortBy(keys.map((id) => source.serializeKey(id)));
+    return _.isEqual(serialize(batch), serialize(ids));
+}
+
+function formatIds(source: MockEntitySource, ids: EntityKey[]): string {
+    return `[${ids.map((id) => source.serializeKey(id)).join(", ")}]`;
+}
+
+function formatBatches(source: MockEntitySource, batches: EntityKey[][]): string {
+    return batches.length > 0 ? batches.map((batch) => formatIds(source, batch)).join(" then ") : "never";
+}
@@ -1,16 +1,69 @@
+import type { AggregationSession } from "./AggregationSession";
+import type { AggregationEventEmitter, AggregatorHooks, Tracer } from "./instrumentation";
+
 export interface EntitySource<T = any, TResult = T> {
-    prepare(ids: string[]): Promise<void>;
-    get(id: string): Promise<TResult | null>;
+    /**
+     * Look up the entities, so that they can be read with `get`.
+     * @param ids The IDs of the entities
+     * @param session The session of the aggregation call. If given, the entities should be kept in the session
+     *  (see `AggregationSession.storeOf`) rather than in the source itself.
+     * @param fields The fields needed by the aggregation, if not the whole entities. The entities may have more fields.
+     */
+    prepare(ids: EntityKey[], session?: AggregationSession, fields?: string[]): Promise<void>;
+
+    /**
+     * Get a prepared entity.
+     * @param id The ID of the entity
+     * @param session The session given to `prepare`
+     * @param fields The fields given to `prepare`
+     */
+    get(id: EntityKey, session?: AggregationSession, fields?: string[]): Promise<TResult | null>;
+
+    /**
+     * Turn an ID into a string, so that the aggregator can tell which IDs are equal.
+     * If not implemented, the default key serializer is used.
+     * @param id The ID of an entity
+     */
+    serializeKey?(id: EntityKey): string;
+
+    /**
+     * Read the ID from an entity given by `get`, so that `Aggregator.collapse` can restore the removed ID fields.
+     * @param entity The entity, possibly trimmed or transformed by the configuration
+     * @returns The ID, or undefined if the entity does not hold it
+     */
+    idOf?(entity: TResult): EntityKey | undefined;
+
+    /**
+     * Whether `prepare` runs its lookups through `session.schedule`, as the built-in sources do,
+     *  so that the concurrency limit of the aggregator applies to each lookup.
+     * Otherwise, the aggregator counts the whole preparation of the source as one lookup.
+     */
+    readonly schedulesLookups?: boolean;
 }
 
+/**
+ * The ID of an entity: a string, a number, an object with a meaningful `toString` (e.g. an ObjectId),
+ * or a plain object for a composite key.
+ */
+export type EntityKey = string | number | bigint | object;
+
+/**
+ * A function turning an ID into a string. Two IDs are considered equal when their serializations are equal.
+ */
+export type KeySerializer = (key: EntityKey) => string;
+
 export enum AggregationMode {
     MERGE = "merge",
     TO_KEY = "toKey",
 }
 
-export type EntityIdGetter<T> = (string & keyof T) | ((element: T) => string);
+export type EntityIdGetter<T> = (string & keyof T) | ((element: T) => EntityKey);
 
-export type EntityLookupFunction<T = any> = (keys: string[]) => Promise<T[]> | T[];
+/**
+ * The function looking up the entities. The fields are given when only some fields of the entities are needed,
+ *  so that e.g. the database query can select only those columns.
+ */
+export type EntityLookupFunction<T = any, TKey = any> = (keys: TKey[], fields?: string[]) => Promise<T[]> | T[];
 
 export type AggregationConfiguration<TSourceKey extends string = string> = {
     [idPath: string]: SingleAggregationOpts<TSourceKey>;
@@ -21,15 +74,313 @@ export type ToKeyModeOpts = {
     omitNull?: boolean;
 }
 
+export type ToManyOpts = {
+    /**
+     * Drop the entities that could not be found, instead of keeping null at their positions.
+     */
+    omitMissing?: boolean;
+    /**
+     * Only keep the first occurrence of duplicated IDs.
+     */
+    unique?: boolean;
+}
+
+export type SortOpts = {
+    /**
+     * The field name(s) or function(s) to sort the entities by.
+     */
+    by: string | ((element: any) => any) | readonly (string | ((element: any) => any))[];
+    /**
+     * The sort order. Defaults to "asc".
+     */
+    order?: "asc" | "desc";
+}
+
 export type SingleAggregationOpts<TSourceKey extends string = string> = {
-    source: TSourceKey;
+    /**
+     * The name of the entity source, or how to choose it per object holding the ID.
+     */
+    source: TSourceKey | SourceSelector<TSourceKey>;
+    /**
+     * Only enrich the objects holding the ID for which the predicate is true.
+     */
+    when?: (parent: any) => boolean;
     to?: ToKeyModeOpts;
     removeIdKey?: boolean;
-    transform?: (element: any) => any;
+    /**
+     * Transform each entity before the injection. It may return a promise, e.g. to check the permissions of the viewer.
+     */
+    transform?: (element: any, context: TransformContext) => any;
+    /**
+     * Options for the fields holding an array of IDs.
+     * The entities are injected as an array in the same order as the IDs.
+     */
+    many?: ToManyOpts;
+    /**
+     * The configuration to aggregate the injected entities in turn.
+     * The paths are relative to the injected entity (or to the object it is merged into).
+     */
+    aggregate?: AggregationConfiguration<TSourceKey>;
+    /**
+     * Sort the entities, when the source gives an array of entities for the ID (e.g. GroupedEntitySource).
+     */
+    sort?: SortOpts;
+    /**
+     * The maximum number of entities to keep, when the source gives an array of entities for the ID.
+     */
+    limit?: number;
+    /**
+     * What to do when the entity source fails. Overrides the policy of the source.
+     */
+    onError?: ErrorPolicy;
+    /**
+     * Build a composite ID from several fields of the object holding the ID field.
+     * The keys are the names of the properties of the composite ID, the values are the paths of the fields,
+     *  e.g. `{ tenantId: "tenantId", userId: "userId" }`.
+     */
+    compositeKey?: { [keyName: string]: string };
+    /**
+     * Only inject these fields of the entities.
+     * The fields selected for a source in one aggregation are given to its lookup function.
+     */
+    select?: readonly string[];
+    /**
+     * Do not inject these fields of the entities.
+     */
+    omit?: readonly string[];
+    /**
+     * How the entity is merged into the object holding the ID, when there is no option "to". Defaults to "deep".
+     */
+    merge?: MergeStrategy;
+    /**
+     * The value injected instead of a missing entity, or a function of the missing ID giving it.
+     * It is injected as it is, without the projection and the transform, and also replaces the entities of a failed lookup with the "null" policy.
+     * The IDs that are null or undefined are not references, so they are not given the default.
+     */
+    default?: any;
+};
+
+/**
+ * What the transform of a path knows about the entity it transforms.
+ */
+export type TransformContext = {
+    // The object holding the ID
+    parent: any;
+    // The data given to the aggregation call (its copy in immutable mode)
+    root: any;
+    // The path of the ID field from the root, e.g. `[0].authorId`
+    path: string;
+    // The ID of the entity, one of the IDs for an array of IDs
+    id: EntityKey;
+    // The name of the entity source
+    source: string;
+    // The context of the aggregation call, e.g. the current user or locale
+    context: Record<string, any>;
+};
+
+/**
+ * Choose the entity source per object holding the ID, e.g. for `{ targetType: "team", targetId: "X" }`:
+ * - `{ field }`: the value of the field is the name of the source,
+ * - `{ field, map }`: the value of the field is mapped to the name of the source, e.g. `{ field: "targetType", map: { team: "team" } }`,
+ * - a function given the object, returning the name of the source.
+ * The objects for which no source is found are not enriched.
+ */
+export type SourceSelector<TSourceKey extends string = string> =
+    | { field: string; map?: { [value: string]: TSourceKey } }
+    | ((parent: any) => TSourceKey | null | undefined);
+
+/**
+ * How an entity is merged into the object holding its ID:
+ * - `deep`: merge the nested objects recursively, the fields of the entity overwrite the existing ones,
+ * - `shallow`: assign the fields of the entity, replacing the existing ones,
+ * - `preserve`: only add the fields that the object does not have,
+ * - `{ prefix }`: assign the fields of the entity with the prefix, e.g. `task_id` for `{ prefix: "task_" }`,
+ * - a function given the object and the entity, which returns the merged object.
+ *   It may modify the object and return it, or return a new object that replaces it.
+ */
+export type MergeStrategy = "deep" | "shallow" | "preserve" | { prefix: string } | ((target: any, entity: any) => any);
+
+/**
+ * What to do when two enrichments write the same key of an object:
+ * - `report`: emit the `mergeConflict` event, the last enrichment wins.
+ * - `throw`: reject the aggregation with a MergeConflictError.
+ */
+export type MergeConflictPolicy = "report" | "throw";
+
+/**
+ * What to do when an entity source fails:
+ * - `throw`: reject the aggregation with a SourceLookupError.
+ * - `null`: continue as if the entities could not be found.
+ * - `skip`: leave the affected data untouched.
+ */
+export type ErrorPolicy = "throw" | "null" | "skip";
+
+export type RetryOpts = {
+    /**
+     * The number of retries after the first failed attempt.
+     */
+    retries: number;
+    /**
+     * The delay in milliseconds before the first retry. Defaults to 100.
+     */
+    delay?: number;
+    /**
+     * The factor the delay is multiplied by after each retry. Defaults to 2.
+     */
+    factor?: number;
+};
+
+export type SourcePolicy = {
+    /**
+     * What to do when the source fails. Defaults to the policy of the aggregator.
+     */
+    onError?: ErrorPolicy;
+    /**
+     * The time in milliseconds a lookup (`prepare`) may take before it is considered failed.
+     */
+    timeout?: number;
+    /**
+     * Retry the failed lookups.
+     */
+    retry?: RetryOpts;
+};
+
+export type AggregatorOpts<TSourceKey extends string = string> = {
+    /**
+     * The maximum number of rounds for nested aggregations. Defaults to 10.
+     */
+    maxDepth?: number;
+    /**
+     * What to do when an entity source fails. Defaults to "throw".
+     */
+    onError?: ErrorPolicy;
+    /**
+     * The error policies, timeouts and retries of the entity sources.
+     */
+    policies?: Partial<Record<TSourceKey, SourcePolicy>>;
+    /**
+     * Return a new object tree instead of modifying the input data,
+     *  and never modify the entities held by the sources. Defaults to false.
+     */
+    immutable?: boolean;
+    /**
+     * Open a session for every aggregation call, which holds the entities prepared for that call only.
+     * Set to false to let the sources keep the entities in their own long-lived memory. Defaults to true.
+     */
+    sessions?: boolean;
+    /**
+     * The maximum number of lookups running at the same time across all the sources of the aggregator.
+     * Defaults to no limit.
+     */
+    maxConcurrency?: number;
+    /**
+     * The functions called on the events of the aggregations and the sources, or an event emitter.
+     */
+    hooks?: AggregatorHooks | AggregationEventEmitter;
+    /**
+     * The tracer for the spans of the aggregations and of the preparations of the sources, e.g. of OpenTelemetry.
+     */
+    tracer?: Tracer;
+    /**
+     * What to do when two enrichments write the same key of an object. Defaults to "report".
+     */
+    onMergeConflict?: MergeConflictPolicy;
+    /**
+     * Throw an EntityNotFoundError when a referenced entity is missing, unless its path has a default. Defaults to false.
+     */
+    strict?: boolean;
+};
+
+export type AggregateOpts = {
+    /**
+     * Return a new object tree instead of modifying the input data,
+     *  and never modify the entities held by the sources. Defaults to the option of the aggregator.
+     */
+    immutable?: boolean;
+    /**
+     * The context given to the entity sources through the session, e.g. the current user or locale.
+     */
+    context?: Record<string, any>;
+    /**
+     * The session to use instead of opening a new one, e.g. to reuse the prepared entities in several calls.
+     */
+    session?: AggregationSession;
+    /**
+     * Throw an EntityNotFoundError when a referenced entity is missing. Defaults to the option of the aggregator.
+     */
+    strict?: boolean;
+    /**
+     * Resolve to an AggregationReport, with the data and the IDs that could not be resolved. Defaults to false.
+     */
+    report?: boolean;
+};
+
+/**
+ * The result of an aggregation with the option `report`.
+ */
+export type AggregationReport<TData> = {
+    data: TData;
+    /**
+     * The IDs whose entities are missing, by source.
+     */
+    unresolved: { [source: string]: UnresolvedEntity[] };
+};
+
+/**
+ * A referenced entity that is missing.
+ */
+export type UnresolvedEntity = {
+    id: EntityKey;
+    // The path of the ID field in the data, e.g. `[2].assigneeId`
+    path: string;
+};
+
+/**
+ * The description of a compiled aggregation plan, for debugging.
+ * The paths of the nested configurations are given from the root of the data.
+ */
+export type PlanExplanation = {
+    /**
+     * The entity sources used by the plan, with the paths of their IDs
+     *  and the fields given to their lookups (undefined for the whole entities).
+     */
+    sources: { name: string; paths: string[]; fields?: string[] }[];
+    /**
+     * The rounds of the aggregation. The sources of a round are prepared together, once per round.
+     * A round only runs if the previous rounds injected entities to aggregate.
+     */
+    rounds: { round: number; sources: string[]; paths: string[] }[];
+    /**
+     * Where the entities are written: merged into the object holding the ID, or put at a target key.
+     */
+    writes: { path: string; source: string; mode: AggregationMode; target: string }[];
+    /**
+     * Whether a nested configuration refers to one of its parents, so that the number of rounds depends on the data.
+     */
+    recursive: boolean;
+};
+
+export type AggregateStreamOpts = Omit<AggregateOpts, "report"> & {
+    /**
+     * The number of records aggregated together. Defaults to 100.
+     */
+    windowSize?: number;
+    /**
+     * The time in milliseconds to wait for a window to fill up, from its first record.
+     * The records received so far are then aggregated without waiting for more. Defaults to no limit.
+     */
+    maxWaitMs?: number;
+    /**
+     * The maximum number of entities per source kept between the windows, so that they are not looked up again.
+     * The oldest ones are released first. Only applies to the session opened by the stream. Defaults to 10000.
+     */
+    maxEntities?: number;
 };
 
 export type SingleEnrichmentConfig<TSourceKey extends string> = {
-    id: string;
+    id: EntityKey | EntityKey[];
     idKeyPath: string;
     objectAbsent?: boolean;
-} & SingleAggregationOpts<TSourceKey>;
+    // The source chosen for the object holding the ID
+    source: TSourceKey;
+} & Omit<SingleAggregationOpts<TSourceKey>, "source">;
@@ -0,0 +1,199 @@
+import _ from "lodash";
+import { EntityIdGetter, EntityKey, RetryOpts } from "./types";
+
+export function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with the error created by `onTimeout` if the promise does not settle within the timeout.
+ * Without a timeout, the promise is returned as is.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, onTimeout: () => Error): Promise<T> {
+    if (timeout === undefined) {
+        return promise;
+    }
+    let timer: ReturnType<typeof setTimeout>;
+    const timeoutPromise = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(onTimeout()), timeout);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call the function until it succeeds or the retries are exhausted,
+ *  waiting longer after each failed attempt.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, retry?: RetryOpts): Promise<T> {
+    const retries = retry?.retries ?? 0;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt >= retries) {
+                throw error;
+            }
+            await delay((retry!.delay ?? 100) * Math.pow(retry!.factor ?? 2, attempt));
+        }
+    }
+}
+
+/**
+ * A function running the tasks given to it with limited concurrency.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter running at most `concurrency` tasks at the same time.
+ * The other tasks wait in order until a running task settles.
+ */
+export function createLimiter(concurrency: number = Infinity): Limiter {
+    let running = 0;
+    const queue: (() => void)[] = [];
+    const next = () => {
+        if (running < concurrency && queue.length > 0) {
+            running++;
+            queue.shift()!();
+        }
+    };
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            task().then(resolve, reject).finally(() => {
+                running--;
+                next();
+            });
+        });
+        next();
+    });
+}
+
+const TIMED_OUT = Symbol("timedOut");
+
+/**
+ * Group the values of an (async) iterable into arrays of at most `size` values.
+ * A window is also closed when `maxWaitMs` has elapsed since its first value, with the values received so far.
+ */
+export async function* windowsOf<T>(source: AsyncIterable<T> | Iterable<T>, size: number, maxWaitMs?: number): AsyncGenerator<T[]> {
+    const iterable: AsyncIterable<T> = Symbol.asyncIterator in source ? source as AsyncIterable<T> : toAsyncIterable(source as Iterable<T>);
+    const iterator = iterable[Symbol.asyncIterator]();
+    // The value being awaited, which may arrive after its window has been closed
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let done = false;
+    try {
+        while (!done) {
+            const window: T[] = [];
+            let deadline = Infinity;
+            while (window.length < size) {
+                if (!pending) {
+                    pending = iterator.next();
+                    // The rejection is handled when the value is awaited, which may never happen if the consumer stops
+                    pending.catch(() => undefined);
+                }
+                const result = await raceDeadline(pending, deadline);
+                if (result === TIMED_OUT) {
+                    break;
+                }
+                pending = undefined;
+                if (result.done) {
+                    done = true;
+                    break;
+                }
+                if (window.length === 0 && maxWaitMs !== undefined) {
+                    deadline = Date.now() + maxWaitMs;
+                }
+                window.push(result.value);
+            }
+            if (window.length > 0) {
+                yield window;
+            }
+        }
+    } finally {
+        if (!done) {
+            await iterator.return?.();
+        }
+    }
+}
+
+async function* toAsyncIterable<T>(source: Iterable<T>): AsyncIterable<T> {
+    yield* source;
+}
+
+function raceDeadline<T>(promise: Promise<T>, deadline: number): Promise<T | typeof TIMED_OUT> {
+    if (deadline === Infinity) {
+        return promise;
+    }
+    let timer: ReturnType<typeof setTimeout>;
+    const timeoutPromise = new Promise<typeof TIMED_OUT>((resolve) => {
+        timer = setTimeout(() => resolve(TIMED_OUT), Math.max(deadline - Date.now(), 0));
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call the lookup function with chunks of at most `maxBatchSize` IDs, and merge the results.
+ * Each chunk runs within the limiter of the source, then within the schedule of the session, if any.
+ * The fields, if any, are given to the lookup function as its second argument.
+ */
+export async function lookupInChunks<T, TKey>(
+    ids: TKey[],
+    lookup: (ids: TKey[], fields?: string[]) => Promise<T[]> | T[],
+    opts: { maxBatchSize?: number; limit: Limiter; schedule?: Limiter; fields?: string[] },
+): Promise<T[]> {
+    const chunks = opts.maxBatchSize ? _.chunk(ids, opts.maxBatchSize) : [ids];
+    const schedule = opts.schedule ?? (<R>(task: () => Promise<R>) => task());
+    const fields = opts.fields;
+    const results = await Promise.all(chunks.map((chunk) =>
+        opts.limit(() => schedule(async () => fields ? lookup(chunk, fields) : lookup(chunk)))
+    ));
+    return _.flatten(results);
+}
+
+/**
+ * The fields to look up for a projection: the requested fields and the field the source reads the ID from, if any.
+ * Without a projection, the whole entities are looked up.
+ */
+export function lookupFields(fields: string[] | undefined, idField: unknown): string[] | undefined {
+    if (!fields) {
+        return undefined;
+    }
+    return typeof idField === "string" ? _.sortBy(_.union(fields, [idField])) : _.sortBy(_.uniq(fields));
+}
+
+/**
+ * Read the ID of an entity with the `entityIdBy` option of a source, or undefined if it is not an object.
+ */
+export function readEntityId<T>(entity: T, idGetter: EntityIdGetter<T>): EntityKey | undefined {
+    if (!_.isObject(entity)) {
+        return undefined;
+    }
+    return typeof idGetter === "string" ? entity[idGetter] as EntityKey | undefined : idGetter(entity);
+}
+
+/**
+ * The key of a prepared entity in the memory of a source, which differs per projection,
+ *  so that an entity looked up with some fields is not given to an aggregation needing other fields.
+ */
+export function projectedKey(key: string, fields?: string[]): string {
+    return fields ? `${key}::{${_.sortBy(_.uniq(fields)).join(",")}}` : key;
+}
+
+/**
+ * The default key serializer. Plain objects and arrays (composite keys) are serialized to JSON with sorted properties,
+ *  anything else with its string conversion, so that e.g. `1` and `"1"` are equal.
+ */
+export function defaultKeySerializer(key: EntityKey): string {
+    if (_.isPlainObject(key) || _.isArray(key)) {
+        return JSON.stringify(sortKeys(key));
+    }
+    return `${key}`;
+}
+
+function sortKeys(value: any): any {
+    if (_.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (_.isPlainObject(value)) {
+        return _.fromPairs(_.sortBy(_.toPairs(value), ([key]) => key).map(([key, element]) => [key, sortKeys(element)]));
+    }
+    return _.isObject(value) ? `${value}` : value;
+}